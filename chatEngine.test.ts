@@ -0,0 +1,246 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  ChatEngine, ModelError, classifyModelError, mergeSources, planContext, resolveCitations, retryDelay,
+  type ChatEngineEvent, type ChatInput, type ModelChunk, type ModelProvider, type ModelRequest
+} from './chatEngine';
+import type { ChatMode, ChatSession, Message } from './types';
+
+// One scripted reply per streamChat call: chunks to yield, then optionally an error to throw
+interface FakeReply {
+  chunks?: ModelChunk[];
+  error?: unknown;
+}
+
+const fakeProvider = (replies: FakeReply[]) => {
+  const requests: ModelRequest[] = [];
+  const provider: ModelProvider = {
+    id: 'mock',
+    label: 'Fake',
+    model: 'fake-model',
+    models: ['fake-model'],
+    capabilities: { images: false, webSearch: true, thinking: false },
+    contextWindow: 100_000,
+    streamChat: async (request) => {
+      const reply = replies[requests.length] ?? { chunks: [] };
+      requests.push(request);
+      return (async function* () {
+        for (const chunk of reply.chunks || []) yield chunk;
+        if (reply.error) throw reply.error;
+      })();
+    }
+  };
+  return { provider, requests };
+};
+
+const MODE: ChatMode = { id: 'standard', name: 'Test', color: 'cyan', icon: 'chat', prompt: 'Answer in ${language}.', tools: {} };
+
+const SESSION: ChatSession = {
+  id: 's1',
+  userId: 'u1',
+  title: 'Test',
+  messages: [],
+  appMode: 'standard',
+  createdAt: 0,
+  updatedAt: 0
+};
+
+const INPUT: ChatInput = { text: 'Hello?', images: [], languageName: 'English', mode: MODE };
+
+const run = async (replies: FakeReply[], signal?: AbortSignal, onEvent?: (event: ChatEngineEvent) => void) => {
+  const { provider, requests } = fakeProvider(replies);
+  const sleep = vi.fn(async (_ms: number, signal?: AbortSignal) => signal?.throwIfAborted());
+  const engine = new ChatEngine({ provider, loadAttachment: async () => null, sleep });
+  const events: ChatEngineEvent[] = [];
+  await engine.send(SESSION, INPUT, event => {
+    events.push(event);
+    onEvent?.(event);
+  }, signal);
+  return { events, requests, sleep, last: events[events.length - 1] };
+};
+
+const text = (value: string, extra: Partial<ModelChunk> = {}): ModelChunk => ({ text: value, ...extra });
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('ChatEngine.send', () => {
+  it('retries a transient failure and then streams the answer', async () => {
+    const { events, requests, sleep, last } = await run([
+      { error: { status: 503, message: '503 Service Unavailable' } },
+      { chunks: [text('Hi '), text('there')] }
+    ]);
+
+    expect(requests).toHaveLength(2);
+    expect(sleep).toHaveBeenCalledTimes(1);
+    const retrying = events.filter(e => e.type === 'retrying');
+    expect(retrying).toHaveLength(1);
+    expect(retrying[0]).toMatchObject({ attempt: 1, error: { kind: 'server' } });
+    expect(events.filter(e => e.type === 'delta').map(e => e.type === 'delta' && e.fullText)).toEqual(['Hi ', 'Hi there']);
+    expect(last).toMatchObject({ type: 'done', text: 'Hi there' });
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const busy = { error: { status: 429, message: '429 Too Many Requests' } };
+    const { requests, last } = await run([busy, busy, busy, busy, busy]);
+
+    expect(requests).toHaveLength(4);
+    expect(last).toMatchObject({ type: 'error', error: { kind: 'rate-limit' }, partialText: '' });
+  });
+
+  it('does not retry once text has arrived', async () => {
+    const { events, requests, last } = await run([
+      { chunks: [text('Partial')], error: { status: 500, message: '500 Internal Server Error' } },
+      { chunks: [text('Should not be requested')] }
+    ]);
+
+    expect(requests).toHaveLength(1);
+    expect(events.some(e => e.type === 'retrying')).toBe(false);
+    expect(last).toMatchObject({ type: 'error', error: { kind: 'server' }, partialText: 'Partial' });
+  });
+
+  it('reports non-transient errors without retrying', async () => {
+    const { events, requests, last } = await run([
+      { error: { status: 401, message: '401 API key not valid' } },
+      { chunks: [text('Should not be requested')] }
+    ]);
+
+    expect(requests).toHaveLength(1);
+    expect(events.some(e => e.type === 'retrying')).toBe(false);
+    expect(last).toMatchObject({ type: 'error', error: { kind: 'auth' } });
+  });
+
+  it('does not wait out a Retry-After longer than the limit', async () => {
+    const { requests, sleep, last } = await run([
+      { error: new ModelError('rate-limit', 'Slow down', 429, 5 * 60_000) }
+    ]);
+
+    expect(requests).toHaveLength(1);
+    expect(sleep).not.toHaveBeenCalled();
+    expect(last).toMatchObject({ type: 'error', error: { kind: 'rate-limit', retryAfterMs: 5 * 60_000 } });
+  });
+
+  it('stops with what had arrived when aborted mid-stream', async () => {
+    const controller = new AbortController();
+    const { events, last } = await run(
+      [{ chunks: [text('First'), text(' second')] }],
+      controller.signal,
+      event => { if (event.type === 'delta') controller.abort(); }
+    );
+
+    expect(events.filter(e => e.type === 'delta')).toHaveLength(1);
+    expect(events.some(e => e.type === 'error')).toBe(false);
+    expect(last).toMatchObject({ type: 'done', text: 'First', stopped: true });
+  });
+
+  it('stops instead of retrying when aborted during the backoff', async () => {
+    const controller = new AbortController();
+    const { requests, last } = await run(
+      [{ error: { status: 503, message: '503' } }, { chunks: [text('Too late')] }],
+      controller.signal,
+      event => { if (event.type === 'retrying') controller.abort(); }
+    );
+
+    expect(requests).toHaveLength(1);
+    expect(last).toMatchObject({ type: 'done', text: '', stopped: true });
+  });
+
+  it('deduplicates sources across chunks and only reports new ones', async () => {
+    const a = { title: 'A', uri: 'https://a.example' };
+    const b = { title: 'B', uri: 'https://b.example' };
+    const { events, last } = await run([{
+      chunks: [
+        text('One', { sources: [a] }),
+        text(' two', { sources: [a, { ...a, title: 'A again' }] }),
+        text(' three', { sources: [b, a] })
+      ]
+    }]);
+
+    const reported = events.filter(e => e.type === 'sources').map(e => e.type === 'sources' && e.sources);
+    expect(reported).toEqual([[a], [a, b]]);
+    expect(last).toMatchObject({ type: 'done', text: 'One two three', sources: [a, b] });
+  });
+
+  it('keeps sources and citations on a failed answer', async () => {
+    const source = { title: 'A', uri: 'https://a.example' };
+    const { last } = await run([{
+      chunks: [text('Cited.', { sources: [source], supports: [{ text: 'Cited.', sourceUris: [source.uri] }] })],
+      error: { status: 500, message: '500' }
+    }]);
+
+    expect(last).toMatchObject({
+      type: 'error',
+      partialText: 'Cited.',
+      sources: [source],
+      citations: [{ end: 6, sources: [0] }]
+    });
+  });
+});
+
+describe('mergeSources', () => {
+  it('keeps first-seen order and the first copy of each URI', () => {
+    const a = { title: 'A', uri: 'https://a.example' };
+    const b = { title: 'B', uri: 'https://b.example' };
+    expect(mergeSources([a], [{ ...a, title: 'Other' }, b, b])).toEqual([a, b]);
+    expect(mergeSources([a])).toEqual([a]);
+  });
+});
+
+describe('resolveCitations', () => {
+  const sources = [{ title: 'A', uri: 'https://a.example' }, { title: 'B', uri: 'https://b.example' }];
+
+  it('converts byte offsets to character offsets', () => {
+    const text = 'Café is open. Tea too.';
+    const end = new TextEncoder().encode('Café is open.').length;
+    expect(resolveCitations(text, [{ endByte: end, sourceUris: [sources[1].uri] }], sources))
+      .toEqual([{ end: 'Café is open.'.length, sources: [1] }]);
+  });
+
+  it('falls back to the span text and drops unknown sources', () => {
+    const text = 'First. Second.';
+    expect(resolveCitations(text, [
+      { text: 'Second.', endByte: 3, sourceUris: [sources[0].uri, sources[1].uri] },
+      { text: 'First.', sourceUris: ['https://unknown.example'] }
+    ], sources)).toEqual([{ end: text.length, sources: [0, 1] }]);
+  });
+});
+
+describe('classifyModelError and retryDelay', () => {
+  it('classifies HTTP statuses and reads Gemini retry hints', () => {
+    const error = classifyModelError(new Error('429 Too Many Requests {"retryDelay": "23s"}'));
+    expect(error).toMatchObject({ kind: 'rate-limit', status: 429, retryAfterMs: 23_000 });
+    expect(error.isTransient).toBe(true);
+    expect(classifyModelError({ status: 429, message: 'insufficient_quota' }).kind).toBe('quota');
+    expect(classifyModelError(new Error('Candidate was blocked due to SAFETY')).kind).toBe('safety');
+    expect(classifyModelError(new TypeError('Failed to fetch')).kind).toBe('network');
+  });
+
+  it('backs off exponentially and honours a longer Retry-After', () => {
+    const server = new ModelError('server', 'busy', 503);
+    expect([0, 1, 2].map(attempt => retryDelay(server, attempt, () => 0))).toEqual([1000, 2000, 4000]);
+    expect(retryDelay(server, 0, () => 1)).toBe(1250);
+    expect(retryDelay(new ModelError('rate-limit', 'slow', 429, 10_000), 0, () => 0)).toBe(10_000);
+  });
+});
+
+describe('planContext', () => {
+  const message = (id: string, role: Message['role'], text: string): Message => ({ id, role, text });
+
+  it('sends everything verbatim while it fits', () => {
+    const session = { ...SESSION, messages: [message('1', 'user', 'Hi'), message('2', 'model', 'Hello')] };
+    const plan = planContext(session, { text: 'Next', images: [] }, 1000);
+    expect(plan.toSummarize).toEqual([]);
+    expect(plan.verbatim.map(m => m.id)).toEqual(['1', '2']);
+  });
+
+  it('summarizes the oldest turns and keeps the verbatim part starting on a question', () => {
+    const long = 'x'.repeat(2000); // About 500 tokens each, 5000 in all
+    const ids = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'];
+    const session = { ...SESSION, messages: ids.map((id, i) => message(id, i % 2 === 0 ? 'user' : 'model', long)) };
+    const plan = planContext(session, { text: 'Next', images: [] }, 4000);
+    expect(plan.toSummarize.length).toBeGreaterThan(0);
+    expect(plan.verbatim[0].role).toBe('user');
+    expect([...plan.toSummarize, ...plan.verbatim].map(m => m.id)).toEqual(ids);
+  });
+});
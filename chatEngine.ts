@@ -0,0 +1,723 @@
+// The model provider contract and the chat engine. Nothing here touches React, IndexedDB
+// or the network on import, so tests can drive the engine with fake providers.
+import type {
+  AttachmentRef, ChatMode, ChatSession, Citation, ContextSummary, GenerationSettings, Message,
+  ResearchQuery, ResearchRun, ResearchStage, ResearchStatus, Source
+} from './types';
+
+// --- Configuration ---
+// Models whose thinking can't be switched off; a budget of 0 is an error for them
+export const THINKING_REQUIRED_MODELS = ['gemini-3-pro-preview', 'gemini-2.5-pro'];
+// The canned welcome message every session opens with; it is never sent to the model
+export const GREETING_ID = 'init-1';
+
+// --- Model Providers ---
+// Everything that talks to a model goes through ModelProvider, so the chat UI never
+// builds vendor-specific request shapes. Failures surface as ModelError, either thrown
+// by the provider or derived from whatever it threw by classifyModelError.
+export type ModelProviderId = 'gemini' | 'openai' | 'mock';
+
+export type ModelErrorKind = 'rate-limit' | 'auth' | 'safety' | 'quota' | 'network' | 'server' | 'unknown';
+
+export class ModelError extends Error {
+  constructor(
+    public kind: ModelErrorKind,
+    message: string,
+    public status?: number,
+    public retryAfterMs?: number // Server-requested wait before trying again
+  ) {
+    super(message);
+    this.name = 'ModelError';
+  }
+
+  // Worth retrying the same request unchanged
+  get isTransient(): boolean {
+    return this.kind === 'rate-limit' || this.kind === 'server' || this.kind === 'network';
+  }
+}
+
+export const kindForStatus = (status: number, detail: string): ModelErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 402) return 'quota';
+  // Providers use 429 for both; only the wording tells a hard quota from a per-minute limit
+  if (status === 429) return /insufficient_quota|PerDay|per day|daily/i.test(detail) ? 'quota' : 'rate-limit';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+// Maps SDK errors, fetch failures and legacy `Error("429 ...")` messages onto ModelError
+export const classifyModelError = (error: unknown): ModelError => {
+  if (error instanceof ModelError) return error;
+  const err = error as { message?: string; status?: number; name?: string } | undefined;
+  const message = err?.message || String(error);
+
+  if (/SAFETY|BLOCKED|PROHIBITED_CONTENT/.test(message)) return new ModelError('safety', message);
+  if (err?.name === 'TypeError' && /fetch|network|load failed/i.test(message)) return new ModelError('network', message);
+
+  const status = typeof err?.status === 'number' ? err.status : Number(message.match(/^\D{0,20}\b([45]\d\d)\b/)?.[1]) || undefined;
+  if (status) {
+    // Gemini puts the suggested wait in a RetryInfo detail: "retryDelay": "23s"
+    const retryDelay = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/)?.[1];
+    return new ModelError(kindForStatus(status, message), message, status, retryDelay ? Number(retryDelay) * 1000 : undefined);
+  }
+  if (/API key/i.test(message)) return new ModelError('auth', message);
+  return new ModelError('unknown', message);
+};
+
+export interface ModelPart {
+  text?: string;
+  image?: { mimeType: string; data: string }; // Base64
+}
+
+export interface ModelTurn {
+  role: 'user' | 'model';
+  parts: ModelPart[];
+}
+
+export interface ModelRequest {
+  systemInstruction: string;
+  turns: ModelTurn[];
+  model?: string; // One of the provider's `models`; its default when unset
+  temperature?: number;
+  webSearch?: boolean; // Ignored by providers without search grounding
+  thinkingBudget?: number; // Ignored by providers without thinking
+  signal?: AbortSignal; // Aborting ends the stream with an AbortError
+}
+
+export interface ModelUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+// Grounding for one span of the answer. Offsets are UTF-8 byte positions in the full
+// answer text, which is how Gemini reports them.
+export interface ModelSupport {
+  text?: string; // The supported span, used to check or recover the offset
+  endByte?: number;
+  sourceUris: string[];
+}
+
+export interface ModelChunk {
+  text: string;
+  sources?: Source[];
+  supports?: ModelSupport[];
+  usage?: ModelUsage; // Running totals; the last chunk that has it wins
+}
+
+export interface ModelProvider {
+  id: ModelProviderId;
+  label: string;
+  model: string; // Default model
+  models: string[]; // Models a session may pick
+  // `fakeSources`: search can be toggled but the sources are made up (mock provider only)
+  capabilities: { images: boolean; webSearch: boolean; thinking: boolean; fakeSources?: boolean };
+  contextWindow: number; // Input tokens the model accepts
+  streamChat: (request: ModelRequest) => Promise<AsyncIterable<ModelChunk>>;
+}
+
+// --- Chat Engine ---
+// Turns a session plus new input into a model request, runs it with retries and reports
+// progress as events. It has no React or IndexedDB dependencies of its own: the provider,
+// attachment loader and sleep are injected, so it can be driven by fake streams.
+export type ChatEngineEvent =
+  | { type: 'delta'; text: string; fullText: string }
+  | { type: 'sources'; sources: Source[] } // Full deduplicated list so far
+  | { type: 'citations'; citations: Citation[] } // Full list so far, against `fullText`
+  | { type: 'summary'; summary: ContextSummary } // Older turns were folded into a new summary
+  | { type: 'research'; research: ResearchRun } // Deep research progress, full state so far
+  | { type: 'done'; text: string; sources: Source[]; citations: Citation[]; usage?: ModelUsage; stopped?: boolean }
+  | { type: 'retrying'; error: ModelError; attempt: number; retryAt: number } // `attempt` counts retries from 1
+  | { type: 'error'; error: ModelError; partialText: string; sources: Source[]; citations: Citation[] };
+
+export interface ChatInput {
+  text: string;
+  images: AttachmentRef[];
+  languageName: string;
+  mode: ChatMode; // The session's mode, looked up in the user's registry
+  defaults?: GenerationSettings; // The user's, for whatever the session doesn't set
+  research?: ResearchRun; // An earlier run for the same question whose searches can be reused
+}
+
+export interface ChatEngineOptions {
+  provider: ModelProvider;
+  loadAttachment: (ref: AttachmentRef) => Promise<ModelPart | null>;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  maxRetries?: number;
+}
+
+export type ResolvedSettings = GenerationSettings & { model: string; webSearch: boolean };
+
+// Session settings win over the mode's tools, then the user's defaults, then the
+// provider's. A model the provider doesn't offer (e.g. after switching backends) falls
+// back to its default, and "thinking off" is dropped for models that always think.
+export const resolveGenerationSettings = (
+  session: ChatSession,
+  mode: ChatMode,
+  defaults: GenerationSettings | undefined,
+  provider: ModelProvider
+): ResolvedSettings => {
+  const model = [session.settings?.model, defaults?.model].find(m => m && provider.models.includes(m)) || provider.model;
+  const thinkingBudget = session.settings?.thinkingBudget ?? mode.tools.thinkingBudget ?? defaults?.thinkingBudget;
+  return {
+    model,
+    temperature: session.settings?.temperature ?? defaults?.temperature,
+    thinkingBudget: thinkingBudget === 0 && THINKING_REQUIRED_MODELS.includes(model) ? undefined : thinkingBudget,
+    webSearch: session.settings?.webSearch ?? mode.tools.webSearch ?? defaults?.webSearch ?? true
+  };
+};
+
+// Replaces ${name} placeholders; unknown names are left as written
+const renderPromptTemplate = (template: string, vars: Record<string, string>): string =>
+  template.replace(/\$\{(\w+)\}/g, (match, name: string) => vars[name] ?? match);
+
+const buildSystemInstruction = (mode: ChatMode, languageName: string): string =>
+  renderPromptTemplate(mode.prompt, { language: languageName, date: new Date().toLocaleDateString(), mode: mode.name });
+
+const RETRY_BASE_MS = 1000;
+const MAX_RETRY_WAIT_MS = 60_000; // A longer Retry-After is reported instead of waited out
+
+// Exponential backoff (1s, 2s, 4s...) or the server's Retry-After if that's longer,
+// plus up to 25% jitter so tabs that failed together don't retry together
+export const retryDelay = (error: ModelError, attempt: number, random = Math.random): number => {
+  const base = Math.max(RETRY_BASE_MS * Math.pow(2, attempt), error.retryAfterMs ?? 0);
+  return Math.round(base * (1 + random() * 0.25));
+};
+
+const abortableSleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Adds sources not seen yet, keyed by URI, keeping first-seen order
+export const mergeSources = (known: Source[], incoming: Source[] = []): Source[] => {
+  const merged = [...known];
+  incoming.forEach(source => {
+    if (!merged.some(s => s.uri === source.uri)) merged.push(source);
+  });
+  return merged;
+};
+
+// Turns grounding supports into citations on `text`. Byte offsets are converted to
+// characters and checked against the span's own text; if they don't line up (a provider
+// counting differently) the span is looked up instead. Supports that can't be placed,
+// or whose sources aren't in `sources`, are dropped.
+export const resolveCitations = (text: string, supports: ModelSupport[], sources: Source[]): Citation[] => {
+  const bytes = new TextEncoder().encode(text);
+  const decoder = new TextDecoder();
+  const byEnd = new Map<number, Set<number>>();
+  supports.forEach(support => {
+    let end = support.endByte !== undefined && support.endByte <= bytes.length
+      ? decoder.decode(bytes.subarray(0, support.endByte)).length
+      : -1;
+    if (support.text && (end < 0 || !text.slice(0, end).endsWith(support.text))) {
+      const start = text.indexOf(support.text);
+      end = start < 0 ? -1 : start + support.text.length;
+    }
+    const indexes = support.sourceUris
+      .map(uri => sources.findIndex(s => s.uri === uri))
+      .filter(i => i >= 0);
+    if (end < 0 || indexes.length === 0) return;
+    const cited = byEnd.get(end) || new Set<number>();
+    indexes.forEach(i => cited.add(i));
+    byEnd.set(end, cited);
+  });
+  return [...byEnd.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([end, cited]) => ({ end, sources: [...cited].sort((a, b) => a - b) }));
+};
+
+type TextRange = [number, number]; // [start, end) character offsets
+
+// Fenced code blocks and inline code spans, where Markdown syntax is shown literally
+const markdownCodeRanges = (text: string): { fenced: TextRange[]; inline: TextRange[] } => {
+  const fenced: TextRange[] = [];
+  let open = -1;
+  let fence = '';
+  let pos = 0;
+  for (const line of text.split('\n')) {
+    const marker = line.match(/^ {0,3}(`{3,}|~{3,})/)?.[1];
+    if (open < 0 && marker) {
+      open = pos;
+      fence = marker;
+    } else if (open >= 0 && marker && marker[0] === fence[0] && marker.length >= fence.length && line.trim() === marker) {
+      fenced.push([open, pos + line.length]);
+      open = -1;
+    }
+    pos += line.length + 1;
+  }
+  if (open >= 0) fenced.push([open, text.length]);
+
+  const inline: TextRange[] = [];
+  for (const match of maskRanges(text, fenced).matchAll(/(`+)[^`][\s\S]*?\1(?!`)/g)) {
+    inline.push([match.index!, match.index! + match[0].length]);
+  }
+  return { fenced, inline };
+};
+
+// Blanks out the ranges (keeping offsets) so patterns run over the rest only
+const maskRanges = (text: string, ranges: TextRange[]): string =>
+  ranges.reduce((masked, [start, end]) => masked.slice(0, start) + ' '.repeat(end - start) + masked.slice(end), text);
+
+// Inserts a marker after each cited span, e.g. `[1]` or a Markdown link to the chip.
+// Markers that would be shown literally or break the syntax around them are moved: out
+// of fenced code to the line before the block, out of inline code and links to just
+// after them. After `!`, `\` or `]` a space keeps the marker from joining that syntax.
+export const insertCitationMarkers = (text: string, citations: Citation[], marker: (sourceIndex: number) => string): string => {
+  const { fenced, inline } = markdownCodeRanges(text);
+  const links = [...maskRanges(text, [...fenced, ...inline]).matchAll(/!?\[[^\]\n]*\]\([^)\n]*\)/g)]
+    .map((match): TextRange => [match.index!, match.index! + match[0].length]);
+  const inside = (ranges: TextRange[], offset: number) => ranges.find(([start, end]) => offset > start && offset < end);
+
+  let result = '';
+  let last = 0;
+  [...citations].sort((a, b) => a.end - b.end).forEach(citation => {
+    let end = citation.end;
+    let separator = '';
+    const block = inside(fenced, end);
+    if (block && block[0] > 0) {
+      end = block[0] - 1;
+    } else if (block) {
+      // The block opens the text, so the marker goes on its own line after it
+      end = block[1];
+      separator = '\n';
+    } else {
+      end = inside([...inline, ...links], end)?.[1] ?? end;
+    }
+    end = Math.max(end, last);
+    if (!separator && /[!\\\]]/.test(text[end - 1] || '')) separator = ' ';
+    result += text.slice(last, end) + separator + citation.sources.map(marker).join('');
+    last = end;
+  });
+  return result + text.slice(last);
+};
+
+// Deep research asks the model for sub-questions, answers each with its own grounded
+// search, pools the sources and has the mode's prompt write a report from the notes.
+// The report cites the pooled sources as [n], which become inline citations.
+const RESEARCH_MAX_QUERIES = 5;
+const RESEARCH_CONCURRENCY = 3; // Drops to one at a time after a rate limit
+const RESEARCH_NOTES_CHARS = 4000; // Per sub-question, when handing findings to the report
+
+const RESEARCH_PLAN_INSTRUCTION = `You plan research for another assistant. Break the user's latest request
+into 3 to ${RESEARCH_MAX_QUERIES} specific, self-contained questions that can each be answered with a web search,
+together covering what a thorough report would need. Use the conversation for context.
+Reply with a numbered list of questions only.`;
+
+const RESEARCH_QUERY_INSTRUCTION = `You are a research assistant gathering material for a report.
+Answer the question with concrete, recent facts, figures and dates from your search results.
+Be thorough but concise and note where sources disagree. Write in English.`;
+
+const researchReportInstruction = (languageName: string) => `You are writing the final deep research report from the research notes attached to the request.
+Structure it as "## Executive Summary", "## Detailed Analysis" and "## Data/Stats" (headings translated).
+Cite sources by their number in square brackets right after the claim they support, e.g. [2] or [1, 3].
+Only cite numbers from the source list. Say so where the notes leave a question open.
+Answer in ${languageName}.`;
+
+const emptyResearchRun = (): ResearchRun => ({
+  stages: { plan: 'pending', search: 'pending', merge: 'pending', report: 'pending' },
+  queries: [],
+  sources: [],
+  startedAt: Date.now()
+});
+
+// Takes the list items from the planner's reply; a reply without any becomes one query
+const parseResearchPlan = (text: string, question: string): string[] => {
+  const items = text.split('\n')
+    .map(line => line.match(/^\s*(?:[-*•]|\d+[.)])\s+(.+)$/)?.[1].replace(/\*\*/g, '').trim())
+    .filter((item): item is string => !!item);
+  const unique = [...new Set(items)].slice(0, RESEARCH_MAX_QUERIES);
+  return unique.length > 0 ? unique : [question || text.trim()];
+};
+
+// Replaces [n] and [n, m] markers with citations of sources n and m. Markers that
+// point outside the list, are really Markdown links or sit in code (`arr[1]`) are left alone.
+const extractCitationMarkers = (text: string, sourceCount: number): { text: string; citations: Citation[] } => {
+  const { fenced, inline } = markdownCodeRanges(text);
+  const citations: Citation[] = [];
+  let result = '';
+  let last = 0;
+  for (const match of maskRanges(text, [...fenced, ...inline]).matchAll(/ ?\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g)) {
+    const indexes = match[1].split(',').map(n => Number(n) - 1);
+    if (indexes.some(i => i < 0 || i >= sourceCount)) continue;
+    result += text.slice(last, match.index);
+    last = match.index! + match[0].length;
+    const previous = citations[citations.length - 1];
+    if (previous?.end === result.length) indexes.forEach(i => previous.sources.includes(i) || previous.sources.push(i));
+    else citations.push({ end: result.length, sources: [...new Set(indexes)] });
+  }
+  citations.forEach(c => c.sources.sort((a, b) => a - b));
+  return { text: result + text.slice(last), citations };
+};
+
+// Long chats are kept within a token budget: recent turns go verbatim, older ones are
+// replaced by the session's rolling summary and only the latest images are resent.
+// Token counts are estimates (about four characters per token), not tokenizer output.
+const HISTORY_WINDOW_SHARE = 0.5; // The rest of the window is left for search results and the answer
+const MAX_HISTORY_TOKENS = 32000; // Caps cost on models with huge windows
+const SUMMARY_KEEP_SHARE = 0.5; // After summarizing, recent turns fill this share so the next summary is a while off
+const IMAGE_TOKENS = 258;
+const RECENT_IMAGE_TURNS = 2; // Questions whose images are still sent; older images are dropped
+const SUMMARY_TOKENS = 600; // Expected size of a summary that hasn't been written yet
+const SUMMARY_EXCERPT_CHARS = 2000; // Per message, when feeding turns to the summarizer
+const FALLBACK_EXCERPT_CHARS = 400; // Per message, when standing in for a failed summary
+
+const SUMMARY_INSTRUCTION = `You maintain a running summary of a conversation between a user and an AI assistant.
+Merge the summary so far with the new turns. Keep facts, figures, names, decisions, open questions
+and the user's stated preferences. Drop greetings and repetition. Write at most 400 words of plain
+prose in the language of the conversation. Reply with the summary only.`;
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const transcriptLine = (m: Message, maxChars: number): string => {
+  const text = m.text.length > maxChars ? `${m.text.slice(0, maxChars)}…` : m.text;
+  const images = m.images?.length ? ` [${m.images.length} image(s)]` : '';
+  return `${m.role === 'user' ? 'User' : 'Assistant'}:${images} ${text}`;
+};
+
+// Used for one request when the summarizer fails: the last summary plus clipped excerpts
+// of the newest turns it should have absorbed, in about the space a summary takes. It is
+// not stored, so the next message tries to summarize again.
+const fallbackSummary = (previous: ContextSummary | undefined, messages: Message[]): ContextSummary => {
+  const lines: string[] = [];
+  for (let i = messages.length - 1, room = SUMMARY_TOKENS * 4; i >= 0 && room > 0; i--) {
+    const line = transcriptLine(messages[i], FALLBACK_EXCERPT_CHARS);
+    lines.unshift(line);
+    room -= line.length;
+  }
+  const omitted = messages.length - lines.length;
+  return {
+    text: [
+      previous?.text,
+      omitted > 0 ? `[${omitted} message(s) omitted]` : '',
+      'Excerpts of the turns since then:',
+      ...lines
+    ].filter(Boolean).join('\n\n'),
+    throughId: messages[messages.length - 1].id
+  };
+};
+
+export const historyBudget = (provider: ModelProvider) =>
+  Math.min(MAX_HISTORY_TOKENS, Math.floor(provider.contextWindow * HISTORY_WINDOW_SHARE));
+
+export interface ContextPlan {
+  summary?: ContextSummary; // The session's summary, if it still belongs to the active branch
+  toSummarize: Message[]; // Turns that must be folded into the summary before sending
+  verbatim: Message[];
+  withImages: Set<string>; // Messages whose images are still sent
+  usedTokens: number; // Summary, unsummarized turns and input as they stand now
+  summarizedCount: number; // Messages covered by the summary, including those about to be added
+  budget: number;
+}
+
+export const planContext = (session: ChatSession, input: Pick<ChatInput, 'text' | 'images'> | null, budget: number): ContextPlan => {
+  const history = session.messages.filter(m => m.id !== GREETING_ID && !m.isStreaming);
+  const summaryAt = session.contextSummary ? history.findIndex(m => m.id === session.contextSummary!.throughId) : -1;
+  const summary = summaryAt === -1 ? undefined : session.contextSummary;
+  const unsummarized = history.slice(summaryAt + 1);
+
+  const withImages = new Set(history.filter(m => m.role === 'user' && m.images?.length).slice(-RECENT_IMAGE_TURNS).map(m => m.id));
+  const cost = (m: Message) => estimateTokens(m.text) + (withImages.has(m.id) ? m.images!.length * IMAGE_TOKENS : 0);
+  const inputTokens = input ? estimateTokens(input.text) + input.images.length * IMAGE_TOKENS : 0;
+  const usedTokens = unsummarized.reduce((n, m) => n + cost(m), inputTokens + (summary ? estimateTokens(summary.text) : 0));
+
+  if (usedTokens <= budget) {
+    return { summary, toSummarize: [], verbatim: unsummarized, withImages, usedTokens, summarizedCount: summaryAt + 1, budget };
+  }
+
+  // Keep the newest turns that fit in the reduced share, starting on a question so the
+  // verbatim part never opens with an answer whose question was summarized away
+  let start = unsummarized.length;
+  let kept = inputTokens + SUMMARY_TOKENS;
+  while (start > 0 && kept + cost(unsummarized[start - 1]) <= budget * SUMMARY_KEEP_SHARE) kept += cost(unsummarized[--start]);
+  while (start < unsummarized.length && unsummarized[start].role !== 'user') start++;
+
+  return {
+    summary,
+    toSummarize: unsummarized.slice(0, start),
+    verbatim: unsummarized.slice(start),
+    withImages,
+    usedTokens,
+    summarizedCount: summaryAt + 1 + start,
+    budget
+  };
+};
+
+export class ChatEngine {
+  private sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+  private maxRetries: number;
+
+  constructor(private options: ChatEngineOptions) {
+    this.sleep = options.sleep || abortableSleep;
+    this.maxRetries = options.maxRetries ?? 3;
+  }
+
+  async buildRequest(
+    session: ChatSession,
+    input: ChatInput,
+    plan = planContext(session, input, historyBudget(this.options.provider))
+  ): Promise<ModelRequest> {
+    const history: ModelTurn[] = await Promise.all(plan.verbatim.map(async m => {
+      const sendImages = plan.withImages.has(m.id);
+      const imageParts = sendImages ? await Promise.all((m.images || []).map(this.options.loadAttachment)) : [];
+      const omitted = !sendImages && m.images?.length ? [{ text: `[${m.images.length} earlier image(s) omitted]` }] : [];
+      return {
+        role: m.role,
+        parts: [
+          ...imageParts.filter((part): part is ModelPart => part !== null),
+          ...omitted,
+          ...(m.text ? [{ text: m.text }] : [])
+        ]
+      };
+    }));
+
+    const imageParts = (await Promise.all(input.images.map(this.options.loadAttachment)))
+      .filter((part): part is ModelPart => part !== null);
+    const currentParts: ModelPart[] = [
+      ...imageParts,
+      ...(input.text ? [{ text: input.text }] : (imageParts.length > 0 ? [{ text: "" }] : []))
+    ];
+
+    const systemInstruction = buildSystemInstruction(input.mode, input.languageName);
+    const settings = resolveGenerationSettings(session, input.mode, input.defaults, this.options.provider);
+    return {
+      systemInstruction: plan.summary
+        ? `${systemInstruction}\n\nSummary of the earlier conversation:\n${plan.summary.text}`
+        : systemInstruction,
+      turns: [...history, { role: 'user', parts: currentParts }],
+      model: settings.model,
+      temperature: settings.temperature,
+      webSearch: settings.webSearch,
+      thinkingBudget: settings.thinkingBudget
+    };
+  }
+
+  // Runs one exchange. `session` is the history before `input`. Resolves after the
+  // final `done` or `error` event and never rejects. Aborting `signal` ends with a
+  // `done` event flagged `stopped` that carries whatever had arrived.
+  async send(session: ChatSession, input: ChatInput, onEvent: (event: ChatEngineEvent) => void, signal?: AbortSignal): Promise<void> {
+    let fullText = '';
+    let sources: Source[] = [];
+    let supports: ModelSupport[] = [];
+    let citations: Citation[] = [];
+    let usage: ModelUsage | undefined;
+    let research: ResearchRun | undefined;
+    const updateResearch = (run: ResearchRun) => {
+      research = run;
+      onEvent({ type: 'research', research });
+    };
+
+    try {
+      const plan = planContext(session, input, historyBudget(this.options.provider));
+      if (plan.toSummarize.length > 0) {
+        try {
+          plan.summary = await this.summarize(plan.summary, plan.toSummarize, signal);
+          onEvent({ type: 'summary', summary: plan.summary });
+        } catch (e) {
+          if (signal?.aborted) throw e;
+          // The turns no longer fit verbatim; excerpts keep the model from losing them entirely
+          console.warn("BorAI: Failed to summarize older turns; sending excerpts instead", e);
+          plan.summary = fallbackSummary(plan.summary, plan.toSummarize);
+        }
+      }
+      const onRetry = (error: ModelError, attempt: number, retryAt: number) => onEvent({ type: 'retrying', error, attempt, retryAt });
+      let request: ModelRequest = { ...await this.buildRequest(session, input, plan), signal };
+      if (input.mode.tools.deepResearch) {
+        request = await this.research(request, input, updateResearch, onRetry);
+        sources = research!.sources;
+        if (sources.length > 0) onEvent({ type: 'sources', sources });
+      }
+
+      await this.stream(request, chunk => {
+        if (chunk.usage) usage = chunk.usage;
+        if (chunk.text) {
+          fullText += chunk.text;
+          onEvent({ type: 'delta', text: chunk.text, fullText });
+        }
+        const merged = mergeSources(sources, chunk.sources);
+        if (merged.length > sources.length) {
+          sources = merged;
+          onEvent({ type: 'sources', sources });
+        }
+        if (chunk.supports?.length) {
+          supports = [...supports, ...chunk.supports];
+          citations = resolveCitations(fullText, supports, sources);
+          onEvent({ type: 'citations', citations });
+        }
+      }, onRetry);
+
+      if (research) {
+        ({ text: fullText, citations } = extractCitationMarkers(fullText, sources.length));
+        updateResearch({ ...research, stages: { ...research.stages, report: 'done' }, finishedAt: Date.now() });
+      }
+      onEvent({ type: 'done', text: fullText, sources, citations, usage });
+    } catch (error) {
+      if (research) {
+        ({ text: fullText, citations } = extractCitationMarkers(fullText, sources.length));
+        const failed = (status: ResearchStatus) => status === 'running' ? 'failed' : status;
+        updateResearch({
+          ...research,
+          stages: { plan: failed(research.stages.plan), search: failed(research.stages.search), merge: failed(research.stages.merge), report: failed(research.stages.report) },
+          queries: research.queries.map(q => ({ ...q, status: failed(q.status), retryAt: undefined })),
+          finishedAt: Date.now()
+        });
+      }
+      if (signal?.aborted) onEvent({ type: 'done', text: fullText, sources, citations, usage, stopped: true });
+      else onEvent({ type: 'error', error: classifyModelError(error), partialText: fullText, sources, citations });
+    }
+  }
+
+  // Streams one request, retrying transient failures while nothing has been received:
+  // once text has been shown, a retry would repeat it. Rejects with a ModelError, or
+  // with the abort reason.
+  private async stream(
+    request: ModelRequest,
+    onChunk: (chunk: ModelChunk) => void,
+    onRetry?: (error: ModelError, attempt: number, retryAt: number) => void
+  ): Promise<void> {
+    const signal = request.signal;
+    for (let attempt = 0; ; attempt++) {
+      let received = false;
+      try {
+        signal?.throwIfAborted();
+        const stream = await this.options.provider.streamChat(request);
+        for await (const chunk of stream) {
+          // Providers may deliver one more buffered chunk after the abort
+          signal?.throwIfAborted();
+          if (chunk.text) received = true;
+          onChunk(chunk);
+        }
+        return;
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        const error = classifyModelError(e);
+        if (received || attempt >= this.maxRetries || !error.isTransient) throw error;
+        if ((error.retryAfterMs ?? 0) > MAX_RETRY_WAIT_MS) throw error;
+        const waitTime = retryDelay(error, attempt);
+        console.warn(`BorAI: ${error.kind} error. Retrying in ${waitTime}ms...`);
+        onRetry?.(error, attempt + 1, Date.now() + waitTime);
+        await this.sleep(waitTime, signal);
+      }
+    }
+  }
+
+  // The first three research stages. Returns the request that writes the report: the
+  // original one with the notes attached and search turned off, since the notes already
+  // hold everything that was found. A finished earlier run in `input.research` is reused.
+  private async research(
+    request: ModelRequest,
+    input: ChatInput,
+    onProgress: (run: ResearchRun) => void,
+    onRetry: (error: ModelError, attempt: number, retryAt: number) => void
+  ): Promise<ModelRequest> {
+    let run: ResearchRun;
+    const update = (changes: Partial<ResearchRun>) => onProgress(run = { ...run, ...changes });
+    const setStage = (stage: ResearchStage, status: ResearchStatus) => update({ stages: { ...run.stages, [stage]: status } });
+    const updateQuery = (index: number, changes: Partial<ResearchQuery>) =>
+      update({ queries: run.queries.map((q, i) => i === index ? { ...q, ...changes } : q) });
+
+    if (input.research?.stages.merge === 'done') {
+      onProgress(run = {
+        ...input.research,
+        stages: { ...input.research.stages, report: 'running' },
+        reused: true,
+        startedAt: Date.now(),
+        finishedAt: undefined
+      });
+    } else {
+      onProgress(run = emptyResearchRun());
+
+      setStage('plan', 'running');
+      let planText = '';
+      await this.stream({ ...request, systemInstruction: RESEARCH_PLAN_INSTRUCTION, webSearch: false, thinkingBudget: undefined }, chunk => {
+        planText += chunk.text;
+      }, onRetry);
+      update({
+        stages: { ...run.stages, plan: 'done', search: 'running' },
+        queries: parseResearchPlan(planText, input.text).map(question => ({ question, status: 'pending' }))
+      });
+
+      // Workers take the next pending query; a rate limit retires all but the first
+      let concurrency = RESEARCH_CONCURRENCY;
+      let next = 0;
+      let lastError: unknown;
+      const worker = async (slot: number) => {
+        while (slot < concurrency && next < run.queries.length) {
+          const index = next++;
+          let answer = '';
+          let found: Source[] = [];
+          updateQuery(index, { status: 'running' });
+          try {
+            await this.stream({
+              systemInstruction: RESEARCH_QUERY_INSTRUCTION,
+              turns: [{ role: 'user', parts: [{ text: run.queries[index].question }] }],
+              model: request.model,
+              webSearch: request.webSearch,
+              signal: request.signal
+            }, chunk => {
+              if (run.queries[index].retryAt) updateQuery(index, { retryAt: undefined });
+              answer += chunk.text;
+              found = mergeSources(found, chunk.sources);
+            }, (error, attempt, retryAt) => {
+              if (error.kind === 'rate-limit') concurrency = 1;
+              updateQuery(index, { retryAt });
+            });
+            updateQuery(index, { status: 'done', answer: answer.trim(), sources: found, retryAt: undefined });
+          } catch (e) {
+            if (request.signal?.aborted) throw e;
+            lastError = e;
+            updateQuery(index, { status: 'failed', error: classifyModelError(e).message, retryAt: undefined });
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(concurrency, run.queries.length) }, (_, slot) => worker(slot)));
+      if (!run.queries.some(q => q.status === 'done')) throw lastError;
+      setStage('search', 'done');
+
+      update({
+        sources: run.queries.reduce<Source[]>((all, q) => mergeSources(all, q.sources), []),
+        stages: { ...run.stages, merge: 'done', report: 'running' }
+      });
+    }
+
+    const notes = run.queries.filter(q => q.status === 'done').map(q => {
+      const answer = q.answer!.length > RESEARCH_NOTES_CHARS ? `${q.answer!.slice(0, RESEARCH_NOTES_CHARS)}…` : q.answer!;
+      const cited = (q.sources || []).map(s => `[${run.sources.findIndex(r => r.uri === s.uri) + 1}]`).join(' ');
+      return `### ${q.question}\n${answer}${cited ? `\nSources: ${cited}` : ''}`;
+    }).join('\n\n');
+    const sourceList = run.sources.map((s, i) => `[${i + 1}] ${s.title} (${s.uri})`).join('\n');
+    const question = request.turns[request.turns.length - 1];
+    return {
+      ...request,
+      systemInstruction: `${request.systemInstruction}\n\n${researchReportInstruction(input.languageName)}`,
+      turns: [
+        ...request.turns.slice(0, -1),
+        { role: 'user', parts: [...question.parts, { text: `\n\nResearch notes:\n\n${notes}\n\nSources:\n${sourceList || '(none)'}` }] }
+      ],
+      webSearch: false
+    };
+  }
+
+  private async summarize(previous: ContextSummary | undefined, messages: Message[], signal?: AbortSignal): Promise<ContextSummary> {
+    const transcript = messages.map(m => transcriptLine(m, SUMMARY_EXCERPT_CHARS)).join('\n\n');
+
+    const stream = await this.options.provider.streamChat({
+      systemInstruction: SUMMARY_INSTRUCTION,
+      turns: [{ role: 'user', parts: [{ text: `${previous ? `Summary so far:\n${previous.text}\n\n` : ''}New turns:\n${transcript}` }] }],
+      signal
+    });
+    let text = '';
+    for await (const chunk of stream) text += chunk.text;
+    if (!text.trim()) throw new Error("Summary came back empty");
+    return { text: text.trim(), throughId: messages[messages.length - 1].id };
+  }
+}
@@ -1,10 +1,24 @@
-import React, { useState, useEffect, useRef, createContext, useContext } from 'react';
+import React, { useState, useEffect, useRef, useMemo, createContext, useContext } from 'react';
 import { createRoot } from 'react-dom/client';
+import { renderToStaticMarkup } from 'react-dom/server';
 import { GoogleGenAI } from "@google/genai";
-import ReactMarkdown from 'react-markdown';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import {
+  ChatEngine, GREETING_ID, ModelError, THINKING_REQUIRED_MODELS, classifyModelError, historyBudget,
+  insertCitationMarkers, kindForStatus, planContext, resolveGenerationSettings,
+  type ContextPlan, type ModelErrorKind, type ModelPart, type ModelProvider, type ModelProviderId, type ModelSupport
+} from './chatEngine';
+import type {
+  AppMode, AttachmentRef, ChatMode, ChatSession, Citation, GenerationSettings, Message, ModeColor, ModeIcon,
+  ResearchRun, ResearchStage, ResearchStatus, Source
+} from './types';
 
 // --- Configuration ---
 const MODEL_NAME = 'gemini-3-flash-preview';
+// Offered in the session settings; the first is the default
+const GEMINI_MODELS = [MODEL_NAME, 'gemini-3-pro-preview', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'];
+const OPENAI_DEFAULT_BASE_URL = 'http://localhost:11434/v1'; // Ollama's OpenAI-compatible API
+const OPENAI_DEFAULT_CONTEXT_WINDOW = 8192; // Conservative; many local models accept more
 
 const LANGUAGES = [
   { code: 'en', name: 'English' },
@@ -27,86 +41,971 @@ const LANGUAGES = [
   { code: 'th', name: 'ไทย (Thai)' },
 ];
 
-type AppMode = 'standard' | 'tutor' | 'research';
 
 // --- Types ---
-interface Source {
-  title: string;
-  uri: string;
-}
-
+// In-memory image picked in the composer, before it is persisted
 interface ImageAttachment {
   data: string; // Base64 string (raw)
   mimeType: string;
   previewUri: string; // Full data URI for preview
 }
 
-interface Message {
-  id: string;
-  role: 'user' | 'model';
-  text: string;
-  sources?: Source[];
-  images?: ImageAttachment[];
-  isStreaming?: boolean;
-  isError?: boolean;
+interface StoredAttachment {
+  hash: string;
+  blob: Blob;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+  iv?: string; // Present when `blob` holds AES-GCM ciphertext
+  ownerId?: string; // User whose key encrypted the blob
 }
 
-interface ChatSession {
+// Small per-session record the sidebar pages through without loading any messages
+interface SessionSummary {
   id: string;
-  userId: string; // Foreign key to User
+  userId: string;
   title: string;
-  messages: Message[];
   appMode: AppMode;
-  createdAt: number;
+  pinned?: boolean;
   updatedAt: number;
+  messageCount: number;
+  thumbnail?: string; // Downscaled JPEG data URI of the first user image
+  previewImage?: AttachmentRef; // Used until a thumbnail has been generated
+}
+
+interface UserPreferences {
+  retentionDays?: number; // Auto-delete unpinned sessions not updated for this many days
+  idleLockMinutes?: number; // Lock the UI after this long without input
+  requireSignIn?: boolean; // Don't restore the profile on launch
+  generationDefaults?: GenerationSettings;
 }
 
 interface UserProfile {
   uid: string;
   displayName: string;
   email: string;
-  passwordHash?: string; // Simple hash for local auth
+  passwordHash?: string; // Base64 PBKDF2 output, or btoa(password) on profiles without passwordParams
+  passwordParams?: PasswordParams;
+  failedLogins?: FailedLogins;
+  lockPin?: { hash: string; params: PasswordParams }; // Unlocks the idle lock screen
   photoURL: string;
-  provider: 'local' | 'google' | 'microsoft';
+  provider: 'local' | SocialProviderId;
+  preferences?: UserPreferences;
+  encryption?: EncryptionParams; // Set for local accounts whose data is encrypted at rest
   createdAt: number;
 }
 
+interface SessionUsage {
+  id: string;
+  title: string;
+  updatedAt: number;
+  pinned: boolean;
+  bytes: number; // Serialized session record
+  imageBytes: number;
+  imageCount: number;
+}
+
+interface AttachmentUsage {
+  hash: string;
+  mimeType: string;
+  size: number;
+  sessionIds: string[];
+}
+
+interface SearchResult {
+  sessionId: string;
+  sessionTitle: string;
+  messageId?: string; // Undefined when only the session title matched
+  field: 'title' | 'message' | 'source';
+  snippet: string;
+  updatedAt: number;
+}
+
+// --- Message Tree ---
+// Editing a question or regenerating an answer adds a sibling instead of overwriting, so
+// a session's messages form a tree. `messages` holds the active path and `branches` the
+// rest. Sessions from before branching have no parentId and read as a single chain.
+
+const allMessages = (session: ChatSession): Message[] => [...session.messages, ...(session.branches || [])];
+
+// Applies `fn` to every message of the tree, active or not
+const mapMessages = (session: ChatSession, fn: (m: Message) => Message): ChatSession => ({
+  ...session,
+  messages: session.messages.map(fn),
+  branches: session.branches?.map(fn)
+});
+
+const withParentLinks = (messages: Message[]): Message[] =>
+  messages.map((m, i) => m.parentId !== undefined ? m : { ...m, parentId: i > 0 ? messages[i - 1].id : null });
+
+const treeNodes = (session: ChatSession): Message[] => [...withParentLinks(session.messages), ...(session.branches || [])];
+
+// Message ids are creation timestamps, so they order siblings oldest first
+const bySiblingOrder = (a: Message, b: Message) => (Number(a.id) || 0) - (Number(b.id) || 0);
+
+const getSiblings = (session: ChatSession, messageId: string): Message[] => {
+  const nodes = treeNodes(session);
+  const message = nodes.find(m => m.id === messageId);
+  if (!message) return [];
+  return nodes.filter(m => m.parentId === message.parentId).sort(bySiblingOrder);
+};
+
+const pathTo = (nodes: Message[], id: string | null): Message[] => {
+  const path: Message[] = [];
+  for (let node = nodes.find(m => m.id === id); node; node = nodes.find(m => m.id === node!.parentId)) {
+    path.unshift(node);
+  }
+  return path;
+};
+
+// Makes `path` the active branch; everything else in the tree moves to `branches`
+const activatePath = (session: ChatSession, path: Message[]): ChatSession => {
+  const onPath = new Set(path.map(m => m.id));
+  const branches = treeNodes(session).filter(m => !onPath.has(m.id));
+  return { ...session, messages: path, branches: branches.length > 0 ? branches : undefined };
+};
+
+// Activates the branch through `messageId`, continuing down its newest replies
+const activateThrough = (session: ChatSession, messageId: string): ChatSession => {
+  const nodes = treeNodes(session);
+  const path = pathTo(nodes, messageId);
+  if (path.length === 0) return session;
+  for (let children = nodes.filter(m => m.parentId === messageId); children.length > 0;) {
+    const newest = children.sort(bySiblingOrder)[children.length - 1];
+    path.push(newest);
+    children = nodes.filter(m => m.parentId === newest.id);
+  }
+  return activatePath(session, path);
+};
+
+// Shows the sibling `offset` steps from `messageId`
+const switchBranch = (session: ChatSession, messageId: string, offset: number): ChatSession => {
+  const siblings = getSiblings(session, messageId);
+  const target = siblings[siblings.findIndex(m => m.id === messageId) + offset];
+  return target ? activateThrough(session, target.id) : session;
+};
+
+// Drops a leaf of the active branch, e.g. a failed answer that is about to be retried
+const removeLeaf = (session: ChatSession, messageId: string): ChatSession => {
+  const last = session.messages[session.messages.length - 1];
+  if (last?.id !== messageId || treeNodes(session).some(m => m.parentId === messageId)) return session;
+  return { ...session, messages: session.messages.slice(0, -1), deletedIds: [...(session.deletedIds || []), messageId] };
+};
+
+// Starts a new branch: `message` becomes a child of `parentId` and the active leaf
+const branchFrom = (session: ChatSession, parentId: string | null, message: Message): ChatSession =>
+  activatePath(session, [...pathTo(treeNodes(session), parentId), { ...message, parentId }]);
+
+// --- Search Index ---
+// Inverted index (term -> session -> message ids) kept next to the sessions store
+const TITLE_REF = '#title';
+
+interface SearchTermRecord {
+  id: string; // `${userId}|${term}`
+  userId: string;
+  term: string;
+  postings: Record<string, string[]>; // sessionId -> message ids (or TITLE_REF)
+}
+
+interface SearchDocRecord {
+  sessionId: string;
+  userId: string;
+  terms: Record<string, string[]>;
+}
+
+const tokenize = (text: string): string[] => {
+  const matches = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return matches.filter(t => t.length >= 2 && t.length <= 40);
+};
+
+const extractSearchTerms = (session: ChatSession): Record<string, string[]> => {
+  const terms = new Map<string, Set<string>>();
+  const add = (text: string, ref: string) => {
+    tokenize(text).forEach(t => {
+      if (!terms.has(t)) terms.set(t, new Set());
+      terms.get(t)!.add(ref);
+    });
+  };
+
+  add(session.title, TITLE_REF);
+  // Every branch is indexed; jumping to a hit on another branch switches to it
+  allMessages(session).forEach(m => {
+    if (m.id === GREETING_ID) return; // Same canned text in every session
+    add(m.text, m.id);
+    m.sources?.forEach(s => add(s.title, m.id));
+  });
+
+  const result: Record<string, string[]> = {};
+  terms.forEach((refs, term) => { result[term] = [...refs].sort(); });
+  return result;
+};
+
+const buildSnippet = (text: string, tokens: string[], radius = 60): string => {
+  const clean = text.replace(/[#*_`>|\[\]]/g, '').replace(/\s+/g, ' ').trim();
+  const lower = clean.toLowerCase();
+  let pos = -1;
+  tokens.forEach(t => {
+    const i = lower.indexOf(t);
+    if (i !== -1 && (pos === -1 || i < pos)) pos = i;
+  });
+  if (pos === -1) return clean.length > radius * 2 ? clean.slice(0, radius * 2) + '…' : clean;
+  const start = Math.max(0, pos - radius);
+  const end = Math.min(clean.length, pos + radius);
+  return (start > 0 ? '…' : '') + clean.slice(start, end) + (end < clean.length ? '…' : '');
+};
+
+// Diffs the session's terms against the last indexed version and only touches changed postings.
+// Pass `session = null` to drop the session from the index.
+const updateSearchIndex = (tx: IDBTransaction, session: ChatSession | null, sessionId: string) => {
+  const docStore = tx.objectStore('searchDocs');
+  const termStore = tx.objectStore('searchTerms');
+  const next = session ? extractSearchTerms(session) : null;
+
+  const docReq = docStore.get(sessionId);
+  docReq.onsuccess = () => {
+    const prevDoc = docReq.result as SearchDocRecord | undefined;
+    const prev = prevDoc?.terms || {};
+    const updates = new Map<string, { userId: string; term: string; refs?: string[] }>();
+
+    if (prevDoc) {
+      const sameUser = !!session && session.userId === prevDoc.userId;
+      Object.keys(prev).forEach(term => {
+        const after = sameUser ? next![term] : undefined;
+        if (after && after.join('|') === prev[term].join('|')) return;
+        updates.set(`${prevDoc.userId}|${term}`, { userId: prevDoc.userId, term, refs: after });
+      });
+    }
+    if (session && next) {
+      Object.keys(next).forEach(term => {
+        const before = prevDoc?.userId === session.userId ? prev[term] : undefined;
+        if (before && before.join('|') === next[term].join('|')) return;
+        updates.set(`${session.userId}|${term}`, { userId: session.userId, term, refs: next[term] });
+      });
+    }
+
+    updates.forEach(({ userId, term, refs }, id) => {
+      const termReq = termStore.get(id);
+      termReq.onsuccess = () => {
+        const record: SearchTermRecord = termReq.result || { id, userId, term, postings: {} };
+        if (refs) record.postings[sessionId] = refs;
+        else delete record.postings[sessionId];
+
+        if (Object.keys(record.postings).length > 0) termStore.put(record);
+        else termStore.delete(id);
+      };
+    });
+
+    if (session && next) {
+      const doc: SearchDocRecord = { sessionId, userId: session.userId, terms: next };
+      docStore.put(doc);
+    } else if (prevDoc) {
+      docStore.delete(sessionId);
+    }
+  };
+};
+
+const promisifyRequest = <T,>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// --- Attachment Helpers ---
+const base64ToBytes = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+const sha256Hex = async (bytes: BufferSource): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const THUMBNAIL_SIZE = 80;
+
+// Center-cropped square JPEG, small enough to keep on the summary record
+const createThumbnail = async (blob: Blob): Promise<string> => {
+  const bitmap = await createImageBitmap(blob);
+  const side = Math.min(bitmap.width, bitmap.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_SIZE;
+  canvas.height = THUMBNAIL_SIZE;
+  canvas.getContext('2d')!.drawImage(
+    bitmap,
+    (bitmap.width - side) / 2, (bitmap.height - side) / 2, side, side,
+    0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE
+  );
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+const summarizeSession = (session: ChatSession, thumbnail?: string): SessionSummary => ({
+  id: session.id,
+  userId: session.userId,
+  title: session.title,
+  appMode: session.appMode,
+  pinned: session.pinned,
+  updatedAt: session.updatedAt,
+  messageCount: session.messages.filter(m => m.id !== GREETING_ID).length,
+  thumbnail,
+  previewImage: session.messages.find(m => m.role === 'user' && m.images?.length)?.images?.[0]
+});
+
+// Sessions written before the attachments store kept base64 inline on the message
+const isLegacyImage = (img: any): img is ImageAttachment => typeof img?.data === 'string';
+
+const hasLegacyImages = (session: ChatSession) =>
+  session.messages.some(m => m.images?.some(isLegacyImage));
+
+// --- Encryption at Rest ---
+// Local accounts derive an AES-GCM key (content) and an HMAC key (attachment ids) from
+// their passcode. Keys live only in memory for as long as the user is signed in.
+interface EncryptionParams {
+  salt: string; // Base64
+  iterations: number;
+}
+
+interface EncryptionKeys {
+  aes: CryptoKey;
+  hmac: CryptoKey;
+}
+
+interface SealedPayload {
+  iv: string; // Base64
+  data: ArrayBuffer;
+}
+
+// On-disk shape of a session. Sealed records keep only index fields in plaintext.
+type StoredSession = ChatSession & {
+  sealed?: SealedPayload;
+  attachmentHashes?: string[]; // Lets attachment GC see references inside sealed sessions
+};
+
+type StoredMode = ChatMode & {
+  sealed?: SealedPayload; // name, prompt and placeholder for encrypted users
+};
+
+type StoredSummary = SessionSummary & {
+  pinnedKey: 0 | 1; // Booleans can't be indexed; pinned sessions page first
+  sealed?: SealedPayload; // title, thumbnail and previewImage for encrypted users
+  thumbnailTried?: boolean; // Set once a thumbnail was attempted, even if none could be made
+};
+
+const ENCRYPTION_ITERATIONS = 310_000;
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const createEncryptionParams = (): EncryptionParams => ({
+  salt: bytesToBase64(crypto.getRandomValues(new Uint8Array(16))),
+  iterations: ENCRYPTION_ITERATIONS
+});
+
+const deriveEncryptionKeys = async (password: string, params: EncryptionParams): Promise<EncryptionKeys> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: base64ToBytes(params.salt), iterations: params.iterations, hash: 'SHA-256' },
+    material,
+    512
+  );
+  const aes = await crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  const hmac = await crypto.subtle.importKey('raw', bits.slice(32), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return { aes, hmac };
+};
+
+const encryptBytes = async (key: CryptoKey, bytes: BufferSource): Promise<SealedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+  return { iv: bytesToBase64(iv), data };
+};
+
+const decryptBytes = (key: CryptoKey, iv: string, data: BufferSource): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(iv) }, key, data);
+
+const sealJson = (key: CryptoKey, value: unknown): Promise<SealedPayload> =>
+  encryptBytes(key, new TextEncoder().encode(JSON.stringify(value)));
+
+const openJson = async <T,>(key: CryptoKey, payload: SealedPayload): Promise<T> =>
+  JSON.parse(new TextDecoder().decode(await decryptBytes(key, payload.iv, payload.data)));
+
+const hmacHex = async (key: CryptoKey, bytes: BufferSource): Promise<string> => {
+  const sig = await crypto.subtle.sign('HMAC', key, bytes);
+  return Array.from(new Uint8Array(sig)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// --- Password Hashing ---
+// Local passcodes are stored as salted PBKDF2 hashes. Profiles from before this have
+// `passwordHash = btoa(pass)` and no params; they're upgraded on their next sign-in.
+interface PasswordParams {
+  algorithm: 'PBKDF2-SHA256';
+  salt: string; // Base64, independent of the encryption salt
+  iterations: number;
+}
+
+interface FailedLogins {
+  count: number;
+  lockedUntil?: number;
+}
+
+const PASSWORD_ITERATIONS = 310_000;
+const LOCKOUT_THRESHOLD = 5; // Failures allowed before the first lockout
+const LOCKOUT_BASE_MS = 30_000; // Doubles with every further failure
+const LOCKOUT_MAX_MS = 15 * 60 * 1000;
+
+const createPasswordParams = (): PasswordParams => ({
+  algorithm: 'PBKDF2-SHA256',
+  salt: bytesToBase64(crypto.getRandomValues(new Uint8Array(16))),
+  iterations: PASSWORD_ITERATIONS
+});
+
+const hashPassword = async (password: string, params: PasswordParams): Promise<string> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: base64ToBytes(params.salt), iterations: params.iterations, hash: 'SHA-256' },
+    material,
+    256
+  );
+  return bytesToBase64(new Uint8Array(bits));
+};
+
+// Runs over the full length whatever the first mismatch, so timing doesn't reveal a prefix
+const constantTimeEqual = (a: string, b: string): boolean => {
+  let diff = a.length ^ b.length;
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+};
+
+const verifyPassword = async (user: UserProfile, password: string): Promise<boolean> => {
+  if (!user.passwordHash) return false;
+  if (!user.passwordParams) {
+    let legacy: string;
+    try {
+      legacy = btoa(password);
+    } catch {
+      return false; // Characters btoa can't encode could never have been registered
+    }
+    return constantTimeEqual(legacy, user.passwordHash);
+  }
+  return constantTimeEqual(await hashPassword(password, user.passwordParams), user.passwordHash);
+};
+
+// The lock screen takes the PIN when one is set, otherwise the passcode
+const verifyUnlockSecret = async (user: UserProfile, secret: string): Promise<boolean> => {
+  if (!user.lockPin) return verifyPassword(user, secret);
+  return constantTimeEqual(await hashPassword(secret, user.lockPin.params), user.lockPin.hash);
+};
+
+const canLockProfile = (user: UserProfile) => !!(user.lockPin || user.passwordHash);
+
+const recordFailedLogin = (failed: FailedLogins | undefined, now = Date.now()): FailedLogins => {
+  const count = (failed?.count || 0) + 1;
+  if (count < LOCKOUT_THRESHOLD) return { count };
+  const delay = Math.min(LOCKOUT_BASE_MS * 2 ** (count - LOCKOUT_THRESHOLD), LOCKOUT_MAX_MS);
+  return { count, lockedUntil: now + delay };
+};
+
+// --- Backup Archive ---
+const BACKUP_FORMAT = 'borai-backup';
+const BACKUP_VERSION = 1;
+
+interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  profile: Omit<UserProfile, 'passwordHash' | 'passwordParams' | 'failedLogins'>;
+  sessions: ChatSession[];
+  attachments: { hash: string; mimeType: string; data: string }[]; // data is raw base64
+  modes?: ChatMode[]; // Missing from backups made before custom modes
+}
+
+type ImportMode = 'merge' | 'replace';
+
+interface ImportSummary {
+  imported: number;
+  skipped: number;
+  renamed: number;
+  attachments: number;
+}
+
+const RESEARCH_STAGES: ResearchStage[] = ['plan', 'search', 'merge', 'report'];
+const RESEARCH_STATUSES: ResearchStatus[] = ['pending', 'running', 'done', 'failed'];
+
+// Sources end up in links, so only web URLs are accepted (no `javascript:` and the like)
+const isBackupSource = (value: unknown): value is Source => {
+  if (!value || typeof value !== 'object') return false;
+  const s = value as Record<string, unknown>;
+  return typeof s.title === 'string' && typeof s.uri === 'string' && /^https?:\/\//i.test(s.uri);
+};
+
+const isBackupSourceList = (value: unknown): value is Source[] =>
+  Array.isArray(value) && value.every(isBackupSource);
+
+const isResearchStatus = (value: unknown): value is ResearchStatus =>
+  RESEARCH_STATUSES.includes(value as ResearchStatus);
+
+const isBackupResearch = (value: unknown): value is ResearchRun => {
+  if (!value || typeof value !== 'object') return false;
+  const r = value as Record<string, any>;
+  return !!r.stages && typeof r.stages === 'object' && RESEARCH_STAGES.every(stage => isResearchStatus(r.stages[stage]))
+    && Array.isArray(r.queries) && r.queries.every((q: any) => !!q && typeof q === 'object'
+      && typeof q.question === 'string' && isResearchStatus(q.status)
+      && (q.answer === undefined || typeof q.answer === 'string')
+      && (q.sources === undefined || isBackupSourceList(q.sources))
+      && (q.retryAt === undefined || typeof q.retryAt === 'number')
+      && (q.error === undefined || typeof q.error === 'string'))
+    && isBackupSourceList(r.sources)
+    && typeof r.startedAt === 'number'
+    && (r.finishedAt === undefined || typeof r.finishedAt === 'number');
+};
+
+const isBackupMessage = (value: unknown): value is Message => {
+  if (!value || typeof value !== 'object') return false;
+  const m = value as Record<string, unknown>;
+  const sourceCount = Array.isArray(m.sources) ? m.sources.length : 0;
+  return typeof m.id === 'string' && (m.role === 'user' || m.role === 'model') && typeof m.text === 'string'
+    && (m.images === undefined || (Array.isArray(m.images) && m.images.every(img =>
+      !!img && typeof img === 'object' && typeof img.hash === 'string' && typeof img.mimeType === 'string')))
+    && (m.sources === undefined || isBackupSourceList(m.sources))
+    // Citations point into `sources` and at offsets of `text`
+    && (m.citations === undefined || (Array.isArray(m.citations) && m.citations.every(c =>
+      !!c && typeof c === 'object' && Number.isInteger(c.end) && c.end >= 0 && c.end <= (m.text as string).length
+      && Array.isArray(c.sources) && c.sources.every((i: unknown) => Number.isInteger(i) && (i as number) >= 0 && (i as number) < sourceCount))))
+    && (m.research === undefined || isBackupResearch(m.research));
+};
+
+const isBackupMode = (value: unknown): value is ChatMode => {
+  if (!value || typeof value !== 'object') return false;
+  const m = value as Record<string, unknown>;
+  return typeof m.id === 'string' && typeof m.name === 'string' && typeof m.prompt === 'string'
+    && typeof m.color === 'string' && m.color in MODE_THEMES
+    && typeof m.icon === 'string' && m.icon in MODE_ICON_PATHS
+    && !!m.tools && typeof m.tools === 'object';
+};
+
+// Throws a user-facing Error describing the first problem found
+const parseBackupArchive = (json: string): BackupArchive => {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  if (!raw || raw.format !== BACKUP_FORMAT) throw new Error("This file is not a BorAI backup.");
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    throw new Error("This backup was made by a newer version of BorAI.");
+  }
+  if (!raw.profile || typeof raw.profile.uid !== 'string') throw new Error("Backup is missing its profile.");
+  if (!Array.isArray(raw.sessions) || !Array.isArray(raw.attachments)) throw new Error("Backup is missing conversations.");
+
+  raw.sessions.forEach((s: any, i: number) => {
+    const valid = s && typeof s.id === 'string' && typeof s.title === 'string' && Array.isArray(s.messages)
+      && typeof s.updatedAt === 'number'
+      && s.messages.every(isBackupMessage)
+      && (s.branches === undefined || (Array.isArray(s.branches) && s.branches.every(isBackupMessage)))
+      && (s.deletedIds === undefined || (Array.isArray(s.deletedIds) && s.deletedIds.every((id: unknown) => typeof id === 'string')))
+      && (s.contextSummary === undefined || (!!s.contextSummary && typeof s.contextSummary.text === 'string' && typeof s.contextSummary.throughId === 'string'));
+    if (!valid) throw new Error(`Conversation #${i + 1} in the backup is malformed.`);
+  });
+  raw.attachments.forEach((a: any, i: number) => {
+    if (!a || typeof a.hash !== 'string' || typeof a.mimeType !== 'string' || typeof a.data !== 'string') {
+      throw new Error(`Attachment #${i + 1} in the backup is malformed.`);
+    }
+  });
+  if (raw.modes !== undefined && (!Array.isArray(raw.modes) || !raw.modes.every(isBackupMode))) {
+    throw new Error("The custom modes in the backup are malformed.");
+  }
+  return raw as BackupArchive;
+};
+
+// --- Schema Migrations ---
+// Ordered by version. Each step runs inside the versionchange transaction, so a throw
+// aborts the whole upgrade and the database stays at its previous version.
+// Never edit a shipped step; append a new one instead.
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => void; // oldVersion: where this upgrade started
+}
+
+// Rewrites every record in a store. Return the updated record, or null to delete it.
+const reshapeStore = <T,>(tx: IDBTransaction, storeName: string, reshape: (record: T) => T | null) => {
+  const cursorReq = tx.objectStore(storeName).openCursor();
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result;
+    if (!cursor) return;
+    const next = reshape(cursor.value as T);
+    if (next === null) cursor.delete();
+    else if (next !== cursor.value) cursor.update(next);
+    cursor.continue();
+  };
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create users and sessions stores',
+    migrate: (db) => {
+      if (!db.objectStoreNames.contains('users')) {
+        const userStore = db.createObjectStore('users', { keyPath: 'uid' });
+        userStore.createIndex('email', 'email', { unique: true });
+      }
+      if (!db.objectStoreNames.contains('sessions')) {
+        const sessionStore = db.createObjectStore('sessions', { keyPath: 'id' });
+        sessionStore.createIndex('userId', 'userId', { unique: false });
+        sessionStore.createIndex('updatedAt', 'updatedAt', { unique: false });
+      }
+    }
+  },
+  {
+    version: 2,
+    description: 'Add full-text search index and index existing sessions',
+    migrate: (db, tx) => {
+      if (!db.objectStoreNames.contains('searchTerms')) {
+        const termStore = db.createObjectStore('searchTerms', { keyPath: 'id' });
+        termStore.createIndex('userId', 'userId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains('searchDocs')) {
+        db.createObjectStore('searchDocs', { keyPath: 'sessionId' });
+      }
+      reshapeStore<ChatSession>(tx, 'sessions', session => {
+        updateSearchIndex(tx, session, session.id);
+        return session;
+      });
+    }
+  },
+  {
+    // Inline images are hashed asynchronously, which can't happen inside the upgrade
+    // transaction; getSessions moves them over the first time each session is loaded.
+    version: 3,
+    description: 'Add content-addressed attachments store',
+    migrate: (db) => {
+      if (!db.objectStoreNames.contains('attachments')) {
+        db.createObjectStore('attachments', { keyPath: 'hash' });
+      }
+    }
+  },
+  {
+    // Sealed sessions can't be summarized without their key; getSessionSummaries fills
+    // those in once the owner is signed in. Thumbnails are generated lazily too.
+    version: 4,
+    description: 'Add session summaries store for the sidebar',
+    migrate: (db, tx) => {
+      if (!db.objectStoreNames.contains('sessionSummaries')) {
+        const summaryStore = db.createObjectStore('sessionSummaries', { keyPath: 'id' });
+        summaryStore.createIndex('userId', 'userId', { unique: false });
+        summaryStore.createIndex('userPinnedUpdated', ['userId', 'pinnedKey', 'updatedAt'], { unique: false });
+      }
+      const summaryStore = tx.objectStore('sessionSummaries');
+      reshapeStore<StoredSession>(tx, 'sessions', session => {
+        if (!session.sealed) summaryStore.put({ ...summarizeSession(session), pinnedKey: session.pinned ? 1 : 0 });
+        return session;
+      });
+    }
+  },
+  {
+    version: 5,
+    description: 'Add store for user-defined modes',
+    migrate: (db) => {
+      if (!db.objectStoreNames.contains('modes')) {
+        const modeStore = db.createObjectStore('modes', { keyPath: 'id' });
+        modeStore.createIndex('userId', 'userId', { unique: false });
+      }
+    }
+  },
+  {
+    // Sealed sessions have no on-disk index and are searched in memory instead. Upgrades
+    // from v1 are indexed in full by v2 already; a second pass in the same transaction
+    // would race it on the shared postings records.
+    version: 6,
+    description: 'Reindex sessions so messages on inactive branches are searchable',
+    migrate: (db, tx, oldVersion) => {
+      if (oldVersion < 2) return;
+      reshapeStore<StoredSession>(tx, 'sessions', session => {
+        if (!session.sealed) updateSearchIndex(tx, session, session.id);
+        return session;
+      });
+    }
+  }
+];
+
+// --- Cross-Tab Sync ---
+type SyncMessage =
+  | { type: 'session-saved' | 'session-replaced'; sessionId: string; userId: string; revision: number }
+  | { type: 'session-deleted'; sessionId: string; userId: string }
+  | { type: 'logout'; userId: string }
+  | { type: 'key-changed'; userId: string }; // The user's data was re-encrypted; other tabs' keys are stale
+
+// BroadcastChannel where available, `storage` events otherwise. Neither delivers to the sender.
+class SyncBus {
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<(msg: SyncMessage) => void>();
+
+  constructor(private name: string) {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(name);
+      this.channel.onmessage = (e) => this.emit(e.data as SyncMessage);
+    } else {
+      window.addEventListener('storage', (e) => {
+        if (e.key === name && e.newValue) this.emit(JSON.parse(e.newValue).msg);
+      });
+    }
+  }
+
+  post(msg: SyncMessage) {
+    if (this.channel) this.channel.postMessage(msg);
+    else localStorage.setItem(this.name, JSON.stringify({ msg, nonce: Math.random() }));
+  }
+
+  subscribe(listener: (msg: SyncMessage) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private emit(msg: SyncMessage) {
+    this.listeners.forEach(l => l(msg));
+  }
+}
+
+const syncBus = new SyncBus('borai-sync');
+
+// A debounced snapshot waiting to be written, plus everyone awaiting that write
+interface PendingSave {
+  session: ChatSession;
+  timer: ReturnType<typeof setTimeout>;
+  waiters: { resolve: (merged: ChatSession | null) => void; reject: (e: unknown) => void }[];
+}
+
+const SAVE_DEBOUNCE_MS = 750;
+
+class StaleSessionError extends Error {
+  constructor(public sessionId: string) {
+    super(`Session ${sessionId} was changed in another tab`);
+    this.name = 'StaleSessionError';
+  }
+}
+
+class SessionDeletedError extends Error {
+  constructor(public sessionId: string) {
+    super(`Session ${sessionId} was deleted`);
+    this.name = 'SessionDeletedError';
+  }
+}
+
+// An encrypted profile's key isn't loaded (signed out, or re-keyed in another tab), so
+// nothing of it may be written: without the key it would land in plaintext
+class ProfileLockedError extends Error {
+  constructor(public userId: string) {
+    super(`Profile ${userId} is locked`);
+    this.name = 'ProfileLockedError';
+  }
+}
+
+// Prefer the copy changed last. Unstamped copies fall back to the one that finished
+// streaming, then the one with more text.
+const pickMessage = (a: Message, b: Message): Message => {
+  const aAt = a.updatedAt || 0;
+  const bAt = b.updatedAt || 0;
+  if (aAt !== bAt) return aAt > bAt ? a : b;
+  if (a.isStreaming !== b.isStreaming) return a.isStreaming ? b : a;
+  return b.text.length > a.text.length ? b : a;
+};
+
+// Unions message lists by id, keeping remote order and slotting local-only messages in
+// after their local predecessor. Messages either side deleted stay deleted.
+// `localChanges` is false when remote already has everything.
+const mergeSessions = (local: ChatSession, remote: ChatSession): { session: ChatSession; localChanges: boolean } => {
+  const deleted = new Set([...(remote.deletedIds || []), ...(local.deletedIds || [])]);
+  let localChanges = deleted.size > (remote.deletedIds?.length || 0);
+  const merged = remote.messages.filter(rm => !deleted.has(rm.id)).map(rm => {
+    const lm = local.messages.find(m => m.id === rm.id);
+    if (!lm || lm === rm) return rm;
+    const picked = pickMessage(rm, lm);
+    if (picked === lm && JSON.stringify(lm) !== JSON.stringify(rm)) localChanges = true;
+    return picked;
+  });
+
+  local.messages.forEach((lm, i) => {
+    // A message the remote keeps on another branch stays there; the remote's active branch wins
+    if (deleted.has(lm.id) || merged.some(m => m.id === lm.id) || remote.branches?.some(m => m.id === lm.id)) return;
+    localChanges = true;
+    const prevId = i > 0 ? local.messages[i - 1].id : null;
+    const at = prevId ? merged.findIndex(m => m.id === prevId) : -1;
+    merged.splice(at === -1 ? merged.length : at + 1, 0, lm);
+  });
+
+  // Inactive branches are append-only, so a union by id loses nothing
+  const onPath = new Set(merged.map(m => m.id));
+  const branches = (remote.branches || []).filter(m => !deleted.has(m.id));
+  (local.branches || []).forEach(lm => {
+    if (deleted.has(lm.id) || onPath.has(lm.id) || branches.some(m => m.id === lm.id)) return;
+    localChanges = true;
+    branches.push(lm);
+  });
+  const activeBranches = branches.filter(m => !onPath.has(m.id));
+
+  const title = remote.title === 'New Conversation' ? local.title : remote.title;
+  if (title !== remote.title || local.appMode !== remote.appMode || !!local.pinned !== !!remote.pinned) localChanges = true;
+  if (JSON.stringify(local.settings || {}) !== JSON.stringify(remote.settings || {})) localChanges = true;
+
+  return {
+    session: {
+      ...remote,
+      title,
+      appMode: local.appMode,
+      settings: local.settings,
+      pinned: local.pinned,
+      messages: merged,
+      branches: activeBranches.length > 0 ? activeBranches : undefined,
+      deletedIds: deleted.size > 0 ? [...deleted] : undefined,
+      updatedAt: Math.max(local.updatedAt, remote.updatedAt)
+    },
+    localChanges
+  };
+};
+
+type DBStatus =
+  | { state: 'opening' | 'ready' }
+  | { state: 'blocked' } // Another tab holds an older connection open
+  | { state: 'outdated' } // Another tab upgraded the schema; this tab must reload
+  | { state: 'failed'; error: string };
+
 // --- IndexedDB Service ---
 // Robust storage for large chat history and images
 class DBService {
   private dbName = 'BorAI_DB';
-  private dbVersion = 1;
+  private dbVersion = MIGRATIONS[MIGRATIONS.length - 1].version;
   private db: IDBDatabase | null = null;
+  private opening: Promise<void> | null = null;
+  private status: DBStatus = { state: 'opening' };
+  private listeners = new Set<(status: DBStatus) => void>();
+  private keys = new Map<string, EncryptionKeys>(); // userId -> keys of unlocked encrypted users
+  private revisions = new Map<string, number>(); // sessionId -> last revision this tab wrote or merged
+  private deletedSessions = new Set<string>(); // Deleted from this tab; late saves must not recreate them
+  private saveQueues = new Map<string, Promise<unknown>>(); // Serializes writes per session
+  private pendingSaves = new Map<string, PendingSave>(); // Coalesced writes not yet queued
+  private thumbnails = new Map<string, Promise<string | undefined>>(); // attachment hash -> thumbnail
+
+  getStatus(): DBStatus {
+    return this.status;
+  }
+
+  subscribe(listener: (status: DBStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private setStatus(status: DBStatus) {
+    this.status = status;
+    this.listeners.forEach(l => l(status));
+  }
 
   async init(): Promise<void> {
+    // Share a single open request between concurrent callers
+    if (!this.opening) {
+      this.opening = this.open().catch(e => {
+        this.opening = null;
+        throw e;
+      });
+    }
+    return this.opening;
+  }
+
+  private open(): Promise<void> {
+    this.setStatus({ state: 'opening' });
     return new Promise((resolve, reject) => {
       const request = indexedDB.open(this.dbName, this.dbVersion);
 
-      request.onerror = () => reject(request.error);
+      request.onerror = () => {
+        const message = request.error?.message || 'Unknown database error';
+        this.setStatus({ state: 'failed', error: message });
+        reject(request.error);
+      };
+      request.onblocked = () => this.setStatus({ state: 'blocked' });
       request.onsuccess = () => {
         this.db = request.result;
+        // Let a newer tab upgrade instead of blocking it forever
+        this.db.onversionchange = () => {
+          this.db?.close();
+          this.db = null;
+          this.opening = null;
+          this.setStatus({ state: 'outdated' });
+        };
+        this.setStatus({ state: 'ready' });
         resolve();
       };
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        
-        // Users store
-        if (!db.objectStoreNames.contains('users')) {
-          const userStore = db.createObjectStore('users', { keyPath: 'uid' });
-          userStore.createIndex('email', 'email', { unique: true });
-        }
-
-        // Sessions store
-        if (!db.objectStoreNames.contains('sessions')) {
-          const sessionStore = db.createObjectStore('sessions', { keyPath: 'id' });
-          sessionStore.createIndex('userId', 'userId', { unique: false });
-          sessionStore.createIndex('updatedAt', 'updatedAt', { unique: false });
+        const db = request.result;
+        const tx = request.transaction!;
+        const pending = MIGRATIONS.filter(m => m.version > event.oldVersion);
+
+        for (const migration of pending) {
+          try {
+            migration.migrate(db, tx, event.oldVersion);
+          } catch (e: any) {
+            console.error(`Migration to v${migration.version} failed (${migration.description})`, e);
+            tx.abort(); // Surfaces as request.onerror with the DB left at oldVersion
+            return;
+          }
         }
       };
     });
   }
 
+  // --- Recovery ---
+
+  // Reads every store of whatever version is on disk, without triggering an upgrade.
+  async dumpRawData(): Promise<Record<string, unknown[]>> {
+    const raw = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.dbName);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    try {
+      const storeNames = Array.from(raw.objectStoreNames);
+      if (storeNames.length === 0) return {};
+      const tx = raw.transaction(storeNames, 'readonly');
+      const entries = await Promise.all(storeNames.map(async name =>
+        [name, await promisifyRequest(tx.objectStore(name).getAll())] as const
+      ));
+      return Object.fromEntries(entries);
+    } finally {
+      raw.close();
+    }
+  }
+
+  async resetDatabase(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+    this.opening = null;
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.deleteDatabase(this.dbName);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => this.setStatus({ state: 'blocked' });
+    });
+  }
+
   // --- User Operations ---
 
   async createUser(user: UserProfile): Promise<void> {
@@ -131,79 +1030,1232 @@ class DBService {
     });
   }
 
-  async getUserByEmail(email: string): Promise<UserProfile | undefined> {
+  async updateUser(user: UserProfile): Promise<void> {
     if (!this.db) await this.init();
     return new Promise((resolve, reject) => {
-      const tx = this.db!.transaction('users', 'readonly');
+      const tx = this.db!.transaction('users', 'readwrite');
       const store = tx.objectStore('users');
-      const index = store.index('email');
+      const request = store.put(user);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getUserByEmail(email: string): Promise<UserProfile | undefined> {
+    if (!this.db) await this.init();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction('users', 'readonly');
+      const store = tx.objectStore('users');
+      const index = store.index('email');
       const request = index.get(email);
       request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
   }
 
-  // --- Session Operations ---
+  // Removes the profile together with every session, summary, index entry and image it owns
+  async deleteUser(userId: string): Promise<void> {
+    this.discardPendingSaves(userId);
+    await Promise.all([...this.saveQueues.values()].map(q => q.catch(() => {})));
+    if (!this.db) await this.init();
+
+    // Other tabs sign out before anything disappears, so none of them reacts to the
+    // deletion by creating a fresh session for this profile
+    syncBus.post({ type: 'logout', userId });
+
+    // One transaction and no per-session events: the profile goes all at once or not at all
+    const sessionIds = await this.getSessionIds(userId);
+    await new Promise<void>((resolve, reject) => {
+      const stores = ['users', 'sessions', 'sessionSummaries', 'searchTerms', 'searchDocs', 'modes'];
+      const tx = this.db!.transaction(stores, 'readwrite');
+      const deleteByUser = (storeName: string) => {
+        const store = tx.objectStore(storeName);
+        store.index('userId').openKeyCursor(IDBKeyRange.only(userId)).onsuccess = (e) => {
+          const cursor = (e.target as IDBRequest<IDBCursor | null>).result;
+          if (!cursor) return;
+          store.delete(cursor.primaryKey);
+          cursor.continue();
+        };
+      };
+      tx.objectStore('users').delete(userId);
+      ['sessions', 'sessionSummaries', 'searchTerms', 'modes'].forEach(deleteByUser);
+      sessionIds.forEach(id => tx.objectStore('searchDocs').delete(id));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+    sessionIds.forEach(id => {
+      this.revisions.delete(id);
+      this.deletedSessions.add(id);
+    });
+    this.keys.delete(userId);
+    await this.collectAttachmentGarbage().catch(e => console.error("Attachment GC failed", e));
+  }
+
+  // --- Encryption ---
+
+  unlock(userId: string, keys: EncryptionKeys) {
+    this.keys.set(userId, keys);
+  }
+
+  // Writes already scheduled for this user still need the key, so it's dropped once they land
+  async lock(userId: string): Promise<void> {
+    const pending = [...this.pendingSaves.values()]
+      .filter(p => p.session.userId === userId)
+      .map(p => p.session.id);
+    await Promise.all(pending.map(id => this.flushSaves(id)));
+    await Promise.all([...this.saveQueues.values()].map(q => q.catch(() => {})));
+    this.keys.delete(userId);
+    // Scheduled while the flush ran; they could no longer be sealed
+    this.discardPendingSaves(userId);
+  }
+
+  // Another tab re-encrypted this user's data. Records sealed with the key held here
+  // couldn't be read any more, so it is dropped along with the writes waiting for it.
+  forgetKey(userId: string) {
+    this.discardPendingSaves(userId);
+    this.keys.delete(userId);
+  }
+
+  isUnlocked(userId: string): boolean {
+    return this.keys.has(userId);
+  }
+
+  // The key to seal a user's records with; undefined for profiles stored in plaintext
+  private async sealingKeys(userId: string): Promise<EncryptionKeys | undefined> {
+    const keys = this.keys.get(userId);
+    if (keys) return keys;
+    const user = await this.getUser(userId);
+    if (user?.encryption) throw new ProfileLockedError(userId);
+    return undefined;
+  }
+
+  // Encrypts title and messages for users with a key; index fields stay in plaintext
+  private async sealSession(session: ChatSession): Promise<StoredSession> {
+    const keys = await this.sealingKeys(session.userId);
+    if (!keys) return session;
+    const attachmentHashes = [...new Set(allMessages(session).flatMap(m => m.images?.map(img => img.hash) || []))];
+    const { title, messages, branches, contextSummary } = session;
+    const sealed = await sealJson(keys.aes, { title, messages, branches, contextSummary });
+    return { ...session, title: '', messages: [], branches: undefined, contextSummary: undefined, attachmentHashes, sealed };
+  }
+
+  // Sealed records of a user whose key isn't loaded come back as an empty shell
+  private async openSession(record: StoredSession): Promise<ChatSession> {
+    if (!record.sealed) return record;
+    const { sealed, attachmentHashes, ...rest } = record;
+    const keys = this.keys.get(record.userId);
+    if (!keys) return { ...rest, title: 'Encrypted conversation', messages: [] };
+    const { title, messages, branches, contextSummary } =
+      await openJson<Pick<ChatSession, 'title' | 'messages' | 'branches' | 'contextSummary'>>(keys.aes, sealed);
+    return { ...rest, title, messages, branches, contextSummary };
+  }
+
+  private getThumbnail(hash: string): Promise<string | undefined> {
+    if (!this.thumbnails.has(hash)) {
+      this.thumbnails.set(hash, this.getAttachment(hash)
+        .then(record => record ? createThumbnail(record.blob) : undefined)
+        .catch(e => {
+          console.warn("Thumbnail generation failed", e);
+          return undefined;
+        }));
+    }
+    return this.thumbnails.get(hash)!;
+  }
+
+  private async buildSummary(session: ChatSession): Promise<StoredSummary> {
+    const summary = summarizeSession(session);
+    if (summary.previewImage) summary.thumbnail = await this.getThumbnail(summary.previewImage.hash);
+    const stored: StoredSummary = { ...summary, pinnedKey: session.pinned ? 1 : 0, thumbnailTried: !!summary.previewImage || undefined };
+
+    const keys = this.keys.get(session.userId);
+    if (!keys) return stored;
+    const { title, thumbnail, previewImage, ...rest } = stored;
+    return { ...rest, title: '', sealed: await sealJson(keys.aes, { title, thumbnail, previewImage }) };
+  }
+
+  private async openSummary(record: StoredSummary): Promise<SessionSummary> {
+    const { sealed, pinnedKey, thumbnailTried, ...summary } = record;
+    if (!sealed) return summary;
+    const keys = this.keys.get(record.userId);
+    if (!keys) return { ...summary, title: 'Encrypted conversation' };
+    return { ...summary, ...await openJson<Pick<SessionSummary, 'title' | 'thumbnail' | 'previewImage'>>(keys.aes, sealed) };
+  }
+
+  private async sealMode(mode: ChatMode): Promise<StoredMode> {
+    const keys = mode.userId ? await this.sealingKeys(mode.userId) : undefined;
+    if (!keys) return mode;
+    const { name, prompt, placeholder, ...rest } = mode;
+    return { ...rest, name: '', prompt: '', sealed: await sealJson(keys.aes, { name, prompt, placeholder }) };
+  }
+
+  // Null for sealed modes of a user whose key isn't loaded
+  private async openMode(record: StoredMode): Promise<ChatMode | null> {
+    const { sealed, ...mode } = record;
+    if (!sealed) return mode;
+    const keys = this.keys.get(record.userId!);
+    if (!keys) return null;
+    return { ...mode, ...await openJson<Pick<ChatMode, 'name' | 'prompt' | 'placeholder'>>(keys.aes, sealed) };
+  }
+
+  // Encrypts every plaintext session and image of a user, storing the new encryption params on
+  // the profile in the same transaction. Used when an existing local account is first unlocked.
+  async sealUserData(user: UserProfile, keys: EncryptionKeys): Promise<void> {
+    const sessions = await this.getSessions(user.uid);
+    const modes = await this.getModes(user.uid);
+    await this.writeRekeyed(user, keys, sessions, modes, hash => this.getAttachment(hash));
+  }
+
+  // Re-encrypts a user's data under new keys (password change). `user` carries the new params.
+  async rekeyUserData(user: UserProfile, keys: EncryptionKeys): Promise<void> {
+    const sessions = await this.getSessions(user.uid); // Decrypted with the current key
+    const modes = await this.getModes(user.uid);
+    const oldAttachments = new Map<string, StoredAttachment | undefined>();
+    for (const s of sessions) {
+      for (const m of allMessages(s)) {
+        for (const img of m.images || []) {
+          if (!oldAttachments.has(img.hash)) oldAttachments.set(img.hash, await this.getAttachment(img.hash));
+        }
+      }
+    }
+    await this.writeRekeyed(user, keys, sessions, modes, async hash => oldAttachments.get(hash));
+  }
+
+  private async writeRekeyed(
+    user: UserProfile,
+    keys: EncryptionKeys,
+    sessions: ChatSession[],
+    modes: ChatMode[],
+    loadAttachment: (hash: string) => Promise<StoredAttachment | undefined>
+  ): Promise<void> {
+    const previousKeys = this.keys.get(user.uid);
+    this.keys.set(user.uid, keys);
+    try {
+      // Attachments first: they are content-addressed, so writing them early is harmless
+      const hashMap = new Map<string, string>();
+      for (const s of sessions) {
+        for (const m of allMessages(s)) {
+          for (const img of m.images || []) {
+            if (hashMap.has(img.hash)) continue;
+            const record = await loadAttachment(img.hash);
+            if (!record) continue;
+            const ref = await this.putAttachmentBytes(await record.blob.arrayBuffer(), record.mimeType, user.uid);
+            hashMap.set(img.hash, ref.hash);
+          }
+        }
+      }
+
+      const rekeyed = sessions.map(s => mapMessages(s, m => m.images
+        ? { ...m, images: m.images.map(img => ({ ...img, hash: hashMap.get(img.hash) || img.hash })) }
+        : m));
+      const records = await Promise.all(rekeyed.map(s => this.sealSession(s)));
+      const summaries = await Promise.all(rekeyed.map(s => this.buildSummary(s)));
+      const modeRecords = await Promise.all(modes.map(m => this.sealMode(m)));
+
+      if (!this.db) await this.init();
+      // Revisions are bumped so a save another tab started with the old key fails as
+      // stale instead of landing; the broadcast below then signs that tab out
+      const revisions = new Map<string, number>();
+      await new Promise<void>((resolve, reject) => {
+        const tx = this.db!.transaction(['users', 'sessions', 'sessionSummaries', 'searchTerms', 'searchDocs', 'modes'], 'readwrite');
+        tx.objectStore('users').put(user);
+        modeRecords.forEach(m => tx.objectStore('modes').put(m));
+        records.forEach(r => {
+          const store = tx.objectStore('sessions');
+          const existingReq = store.get(r.id);
+          existingReq.onsuccess = () => {
+            const revision = ((existingReq.result as StoredSession | undefined)?.revision || 0) + 1;
+            revisions.set(r.id, revision);
+            store.put({ ...r, revision });
+          };
+          updateSearchIndex(tx, null, r.id); // Plaintext terms must not outlive encryption
+        });
+        summaries.forEach(summary => tx.objectStore('sessionSummaries').put(summary));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      });
+      revisions.forEach((revision, id) => this.revisions.set(id, revision));
+      syncBus.post({ type: 'key-changed', userId: user.uid });
+    } catch (e) {
+      if (previousKeys) this.keys.set(user.uid, previousKeys);
+      else this.keys.delete(user.uid);
+      throw e;
+    }
+    await this.collectAttachmentGarbage().catch(e => console.error("Attachment GC failed", e));
+  }
+
+  // --- Mode Operations ---
 
-  async saveSession(session: ChatSession): Promise<void> {
+  async getModes(userId: string): Promise<ChatMode[]> {
     if (!this.db) await this.init();
+    const tx = this.db!.transaction('modes', 'readonly');
+    const records = await promisifyRequest(tx.objectStore('modes').index('userId').getAll(IDBKeyRange.only(userId))) as StoredMode[];
+    const modes = await Promise.all(records.map(r => this.openMode(r)));
+    return modes
+      .filter((m): m is ChatMode => m !== null)
+      .sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0));
+  }
+
+  async saveMode(mode: ChatMode): Promise<void> {
+    if (!this.db) await this.init();
+    const record = await this.sealMode(mode);
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction('modes', 'readwrite');
+      tx.objectStore('modes').put(record);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  private async getModeOwner(id: string): Promise<string | undefined> {
+    if (!this.db) await this.init();
+    const tx = this.db!.transaction('modes', 'readonly');
+    const record = await promisifyRequest(tx.objectStore('modes').get(id)) as StoredMode | undefined;
+    return record?.userId;
+  }
+
+  async deleteMode(id: string): Promise<void> {
+    if (!this.db) await this.init();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction('modes', 'readwrite');
+      tx.objectStore('modes').delete(id);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  // --- Session Operations ---
+
+  // Writes are checked against the revision this tab last saw. If another tab saved in the
+  // meantime, the two versions are merged and written again; the merged session is returned
+  // so the caller can adopt it. `force` overwrites regardless (e.g. clearing a chat).
+  // Saves to a session deleted in any tab are dropped rather than recreating it.
+  async saveSession(session: ChatSession, options: { force?: boolean } = {}): Promise<ChatSession | null> {
+    // A direct save is the newest snapshot, so it supersedes any scheduled one
+    const superseded = this.pendingSaves.get(session.id);
+    if (superseded) {
+      clearTimeout(superseded.timer);
+      this.pendingSaves.delete(session.id);
+    }
+
+    const previous = this.saveQueues.get(session.id) || Promise.resolve();
+    const result = previous.catch(() => {}).then(() => this.writeSessionWithMerge(session, !!options.force));
+    this.saveQueues.set(session.id, result);
+    result.finally(() => {
+      if (this.saveQueues.get(session.id) === result) this.saveQueues.delete(session.id);
+    }).catch(() => {});
+    superseded?.waiters.forEach(w => result.then(w.resolve, w.reject));
+    return result;
+  }
+
+  // Debounced save for rapidly changing sessions (streaming). Snapshots arriving within
+  // the window replace each other and only the last is written; every caller's promise
+  // settles with that write.
+  scheduleSave(session: ChatSession): Promise<ChatSession | null> {
     return new Promise((resolve, reject) => {
-      const tx = this.db!.transaction('sessions', 'readwrite');
+      const pending = this.pendingSaves.get(session.id);
+      if (pending) clearTimeout(pending.timer);
+      const waiters = [...(pending?.waiters || []), { resolve, reject }];
+      const timer = setTimeout(() => this.flushSaves(session.id), SAVE_DEBOUNCE_MS);
+      this.pendingSaves.set(session.id, { session, timer, waiters });
+    });
+  }
+
+  // Drops scheduled writes that must not land, e.g. for a profile being deleted
+  private discardPendingSaves(userId: string) {
+    this.pendingSaves.forEach((pending, id) => {
+      if (pending.session.userId !== userId) return;
+      clearTimeout(pending.timer);
+      this.pendingSaves.delete(id);
+      pending.waiters.forEach(w => w.resolve(null));
+    });
+  }
+
+  // Queues scheduled writes immediately, for one session or all of them
+  async flushSaves(sessionId?: string): Promise<void> {
+    const ids = sessionId ? [sessionId] : [...this.pendingSaves.keys()];
+    await Promise.all(ids.map(id => {
+      const pending = this.pendingSaves.get(id);
+      return pending ? this.saveSession(pending.session).catch(() => {}) : undefined;
+    }));
+  }
+
+  private async writeSessionWithMerge(session: ChatSession, force: boolean): Promise<ChatSession | null> {
+    let toWrite = session;
+    let merged: ChatSession | null = null;
+    for (let attempt = 0; attempt < 3; attempt++) {
+      try {
+        await this.writeSession(toWrite, force);
+        return merged;
+      } catch (e) {
+        if (e instanceof SessionDeletedError) return null;
+        if (!(e instanceof StaleSessionError)) throw e;
+        const latest = await this.getSession(session.id);
+        if (!latest) { // Deleted meanwhile; a deletion is final
+          this.deletedSessions.add(session.id);
+          return null;
+        }
+        this.revisions.set(session.id, latest.revision || 0);
+        merged = { ...mergeSessions(toWrite, latest).session, revision: latest.revision };
+        toWrite = merged;
+      }
+    }
+    throw new StaleSessionError(session.id);
+  }
+
+  private async writeSession(session: ChatSession, force: boolean): Promise<void> {
+    if (!this.db) await this.init();
+    const expected = this.revisions.get(session.id) ?? session.revision ?? 0;
+    const record = await this.sealSession(session);
+    const summary = await this.buildSummary(session);
+    let revision = 0;
+
+    await new Promise<void>((resolve, reject) => {
+      const tx = this.db!.transaction(['sessions', 'sessionSummaries', 'searchTerms', 'searchDocs'], 'readwrite');
       const store = tx.objectStore('sessions');
-      const request = store.put(session);
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+      const existingReq = store.get(session.id);
+      existingReq.onsuccess = () => {
+        const existing = existingReq.result as StoredSession | undefined;
+        const current = existing?.revision || 0;
+        // A session this tab has seen written but that is gone now was deleted, here or elsewhere
+        if (!existing && !force && (expected > 0 || this.deletedSessions.has(session.id))) {
+          this.deletedSessions.add(session.id);
+          tx.abort();
+          reject(new SessionDeletedError(session.id));
+          return;
+        }
+        if (existing && !force && current !== expected) {
+          tx.abort();
+          reject(new StaleSessionError(session.id));
+          return;
+        }
+        revision = current + 1;
+        store.put({ ...record, revision });
+        tx.objectStore('sessionSummaries').put(summary);
+        // Encrypted sessions are searched in memory instead of through the on-disk index
+        updateSearchIndex(tx, record.sealed ? null : session, session.id);
+      };
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
     });
+
+    this.revisions.set(session.id, revision);
+    syncBus.post({ type: force ? 'session-replaced' : 'session-saved', sessionId: session.id, userId: session.userId, revision });
   }
 
   async getSessions(userId: string): Promise<ChatSession[]> {
     if (!this.db) await this.init();
-    return new Promise((resolve, reject) => {
+    return new Promise<StoredSession[]>((resolve, reject) => {
       const tx = this.db!.transaction('sessions', 'readonly');
       const store = tx.objectStore('sessions');
       const index = store.index('userId');
       const request = index.getAll(IDBKeyRange.only(userId));
       
       request.onsuccess = () => {
-        const sessions = request.result as ChatSession[];
+        const sessions = request.result as StoredSession[];
         // Sort by update time desc
         sessions.sort((a, b) => b.updatedAt - a.updatedAt);
         resolve(sessions);
       };
       request.onerror = () => reject(request.error);
+    }).then(records => Promise.all(records.map(async record => {
+      // Only seed revisions: later reads must not advance them past what the UI has merged
+      if (!this.revisions.has(record.id)) this.revisions.set(record.id, record.revision || 0);
+      const session = await this.openSession(record);
+      if (!hasLegacyImages(session)) return session;
+      const migrated = await this.externalizeLegacyImages(session);
+      await this.saveSession(migrated);
+      return migrated;
+    })));
+  }
+
+  // One page of sidebar entries, newest first. Pinned sessions always come back on the first page.
+  // `before` is the last unpinned entry of the previous page; ties on updatedAt are ordered by
+  // id (descending, like the cursor), so sessions sharing a timestamp are neither lost nor repeated.
+  async getSessionSummaries(
+    userId: string,
+    limit = 30,
+    before?: Pick<SessionSummary, 'id' | 'updatedAt'>
+  ): Promise<{ summaries: SessionSummary[]; hasMore: boolean }> {
+    if (!this.db) await this.init();
+    if (before === undefined) await this.ensureSummaries(userId);
+
+    const tx = this.db!.transaction('sessionSummaries', 'readonly');
+    const index = tx.objectStore('sessionSummaries').index('userPinnedUpdated');
+
+    const pinned = before === undefined
+      ? await promisifyRequest(index.getAll(IDBKeyRange.bound([userId, 1, -Infinity], [userId, 1, Infinity]))) as StoredSummary[]
+      : [];
+
+    const page: StoredSummary[] = [];
+    const hasMore = await new Promise<boolean>((resolve, reject) => {
+      const range = IDBKeyRange.bound([userId, 0, -Infinity], [userId, 0, before?.updatedAt ?? Infinity]);
+      const cursorReq = index.openCursor(range, 'prev');
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor) return resolve(false);
+        const record = cursor.value as StoredSummary;
+        if (before && record.updatedAt === before.updatedAt && record.id >= before.id) return cursor.continue();
+        if (page.length === limit) return resolve(true);
+        page.push(record);
+        cursor.continue();
+      };
+      cursorReq.onerror = () => reject(cursorReq.error);
+    });
+
+    pinned.sort((a, b) => b.updatedAt - a.updatedAt);
+    const summaries = await Promise.all([...pinned, ...page].map(r => this.openSummary(r)));
+    return { summaries, hasMore };
+  }
+
+  async getSessionSummary(id: string): Promise<SessionSummary | undefined> {
+    if (!this.db) await this.init();
+    const tx = this.db!.transaction('sessionSummaries', 'readonly');
+    const record = await promisifyRequest(tx.objectStore('sessionSummaries').get(id)) as StoredSummary | undefined;
+    return record ? this.openSummary(record) : undefined;
+  }
+
+  // Writes summaries the v4 migration couldn't (sealed sessions) and thumbnails it skipped
+  private async ensureSummaries(userId: string): Promise<void> {
+    const tx = this.db!.transaction(['sessions', 'sessionSummaries'], 'readonly');
+    const [sessionIds, summaries] = await Promise.all([
+      promisifyRequest(tx.objectStore('sessions').index('userId').getAllKeys(IDBKeyRange.only(userId))),
+      promisifyRequest(tx.objectStore('sessionSummaries').index('userId').getAll(IDBKeyRange.only(userId)))
+    ]);
+    const complete = new Set((summaries as StoredSummary[])
+      .filter(s => s.sealed || s.thumbnail || !s.previewImage || s.thumbnailTried)
+      .map(s => s.id));
+    const missing = (sessionIds as string[]).filter(id => !complete.has(id));
+    if (missing.length === 0) return;
+
+    const rebuilt: StoredSummary[] = [];
+    for (const id of missing) {
+      const record = await promisifyRequest(this.db!.transaction('sessions', 'readonly').objectStore('sessions').get(id)) as StoredSession | undefined;
+      if (!record || (record.sealed && !this.keys.has(userId))) continue; // Locked: retry after unlock
+      rebuilt.push(await this.buildSummary(await this.openSession(record)));
+    }
+    await new Promise<void>((resolve, reject) => {
+      const writeTx = this.db!.transaction('sessionSummaries', 'readwrite');
+      rebuilt.forEach(summary => writeTx.objectStore('sessionSummaries').put(summary));
+      writeTx.oncomplete = () => resolve();
+      writeTx.onerror = () => reject(writeTx.error);
+    });
+  }
+
+  async getSession(id: string): Promise<ChatSession | undefined> {
+    if (!this.db) await this.init();
+    const record = await new Promise<StoredSession | undefined>((resolve, reject) => {
+      const tx = this.db!.transaction('sessions', 'readonly');
+      const store = tx.objectStore('sessions');
+      const request = store.get(id);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
     });
+    return record ? this.openSession(record) : undefined;
   }
 
   async deleteSession(id: string): Promise<void> {
+    await this.removeSession(id);
+    await this.collectAttachmentGarbage().catch(e => console.error("Attachment GC failed", e));
+  }
+
+  // Deletes the record and its index entries without sweeping attachments
+  private async getSessionIds(userId: string): Promise<string[]> {
+    if (!this.db) await this.init();
+    const tx = this.db!.transaction('sessions', 'readonly');
+    return await promisifyRequest(tx.objectStore('sessions').index('userId').getAllKeys(IDBKeyRange.only(userId))) as string[];
+  }
+
+  private async removeSession(id: string): Promise<void> {
     if (!this.db) await this.init();
     return new Promise((resolve, reject) => {
-      const tx = this.db!.transaction('sessions', 'readwrite');
+      const tx = this.db!.transaction(['sessions', 'sessionSummaries', 'searchTerms', 'searchDocs'], 'readwrite');
       const store = tx.objectStore('sessions');
-      const request = store.delete(id);
-      request.onsuccess = () => resolve();
+      const existingReq = store.get(id);
+      existingReq.onsuccess = () => {
+        const existing = existingReq.result as StoredSession | undefined;
+        store.delete(id);
+        tx.objectStore('sessionSummaries').delete(id);
+        updateSearchIndex(tx, null, id);
+        tx.oncomplete = () => {
+          this.revisions.delete(id);
+          this.deletedSessions.add(id);
+          if (existing) syncBus.post({ type: 'session-deleted', sessionId: id, userId: existing.userId });
+          resolve();
+        };
+      };
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  // --- Attachment Operations ---
+
+  // Stores the image bytes once per unique content and returns the reference to keep on the Message.
+  // For encrypted users the key is a keyed hash, so identical images of different users never collide.
+  async putAttachment(image: ImageAttachment, userId: string): Promise<AttachmentRef> {
+    return this.putAttachmentBytes(base64ToBytes(image.data).buffer, image.mimeType, userId);
+  }
+
+  private async putAttachmentBytes(bytes: ArrayBuffer, mimeType: string, userId: string): Promise<AttachmentRef> {
+    if (!this.db) await this.init();
+    const keys = await this.sealingKeys(userId);
+    const hash = keys ? await hmacHex(keys.hmac, bytes) : await sha256Hex(bytes);
+    const ref: AttachmentRef = { hash, mimeType, size: bytes.byteLength };
+
+    let record: StoredAttachment = {
+      hash,
+      blob: new Blob([bytes], { type: mimeType }),
+      mimeType,
+      size: bytes.byteLength,
+      createdAt: Date.now()
+    };
+    if (keys) {
+      const { iv, data } = await encryptBytes(keys.aes, bytes);
+      record = { ...record, blob: new Blob([data]), iv, ownerId: userId };
+    }
+
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction('attachments', 'readwrite');
+      const store = tx.objectStore('attachments');
+      const existing = store.get(hash);
+      existing.onsuccess = () => {
+        // Reattaching a stored image restarts its grace period, since the message
+        // referencing it again may not be saved yet
+        const stored = existing.result as StoredAttachment | undefined;
+        store.put(stored ? { ...stored, createdAt: Date.now() } : record);
+      };
+      tx.oncomplete = () => resolve(ref);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  // Returns the decrypted image; undefined if missing or its owner's key isn't loaded
+  async getAttachment(hash: string): Promise<StoredAttachment | undefined> {
+    if (!this.db) await this.init();
+    const record = await new Promise<StoredAttachment | undefined>((resolve, reject) => {
+      const tx = this.db!.transaction('attachments', 'readonly');
+      const store = tx.objectStore('attachments');
+      const request = store.get(hash);
+      request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
+    if (!record?.iv) return record;
+
+    const keys = this.keys.get(record.ownerId!);
+    if (!keys) return undefined;
+    const bytes = await decryptBytes(keys.aes, record.iv, await record.blob.arrayBuffer());
+    return { ...record, blob: new Blob([bytes], { type: record.mimeType }) };
+  }
+
+  // Deletes attachments no session references any more. Recently written (or reused)
+  // blobs are kept because the message pointing at them may not have been saved yet.
+  async collectAttachmentGarbage(graceMs = 60_000): Promise<number> {
+    if (!this.db) await this.init();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction(['sessions', 'attachments'], 'readwrite');
+      const sessionsReq = tx.objectStore('sessions').getAll();
+      let removed = 0;
+
+      sessionsReq.onsuccess = () => {
+        const referenced = new Set<string>();
+        (sessionsReq.result as StoredSession[]).forEach(s => {
+          s.attachmentHashes?.forEach(hash => referenced.add(hash));
+          allMessages(s).forEach(m => m.images?.forEach(img => { if (!isLegacyImage(img)) referenced.add(img.hash); }));
+        });
+
+        const cutoff = Date.now() - graceMs;
+        const cursorReq = tx.objectStore('attachments').openCursor();
+        cursorReq.onsuccess = () => {
+          const cursor = cursorReq.result;
+          if (!cursor) return;
+          const record = cursor.value as StoredAttachment;
+          if (!referenced.has(record.hash) && record.createdAt < cutoff) {
+            cursor.delete();
+            removed++;
+          }
+          cursor.continue();
+        };
+      };
+      tx.oncomplete = () => resolve(removed);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  // Moves inline base64 images of a pre-v3 session into the attachments store
+  private async externalizeLegacyImages(session: ChatSession): Promise<ChatSession> {
+    const messages = await Promise.all(session.messages.map(async m => {
+      if (!m.images?.some(isLegacyImage)) return m;
+      const images = await Promise.all(m.images.map(img => isLegacyImage(img) ? this.putAttachment(img, session.userId) : img));
+      return { ...m, images };
+    }));
+    return { ...session, messages };
+  }
+
+  // --- Storage Management ---
+
+  async getStorageUsage(userId: string): Promise<{ sessions: SessionUsage[]; attachments: AttachmentUsage[] }> {
+    const sessions = await this.getSessions(userId);
+    const attachments = new Map<string, AttachmentUsage>();
+
+    const usage = sessions.map(s => {
+      const hashes = new Set<string>();
+      let imageBytes = 0;
+      allMessages(s).forEach(m => m.images?.forEach(img => {
+        if (!attachments.has(img.hash)) {
+          attachments.set(img.hash, { hash: img.hash, mimeType: img.mimeType, size: img.size, sessionIds: [] });
+        }
+        const entry = attachments.get(img.hash)!;
+        if (!entry.sessionIds.includes(s.id)) entry.sessionIds.push(s.id);
+        if (!hashes.has(img.hash)) imageBytes += img.size;
+        hashes.add(img.hash);
+      }));
+      return {
+        id: s.id,
+        title: s.title,
+        updatedAt: s.updatedAt,
+        pinned: !!s.pinned,
+        bytes: new Blob([JSON.stringify(s)]).size,
+        imageBytes,
+        imageCount: hashes.size
+      };
+    });
+
+    return {
+      sessions: usage,
+      attachments: [...attachments.values()].sort((a, b) => b.size - a.size)
+    };
+  }
+
+  async deleteSessions(ids: string[]): Promise<void> {
+    for (const id of ids) await this.removeSession(id);
+    await this.collectAttachmentGarbage().catch(e => console.error("Attachment GC failed", e));
+  }
+
+  // Removes image references from the given sessions (optionally only one image) and frees the blobs
+  async stripImages(sessionIds: string[], onlyHash?: string): Promise<void> {
+    for (const id of sessionIds) {
+      const session = await this.getSession(id);
+      if (!session) continue;
+      await this.saveSession(mapMessages(session, m => {
+        if (!m.images) return m;
+        const images = onlyHash ? m.images.filter(img => img.hash !== onlyHash) : [];
+        if (images.length === m.images.length) return m;
+        // Stamped so a stale copy from another tab can't merge the images back in
+        return { ...m, images: images.length > 0 ? images : undefined, updatedAt: Date.now() };
+      }));
+    }
+    await this.collectAttachmentGarbage().catch(e => console.error("Attachment GC failed", e));
+  }
+
+  // Deletes unpinned sessions idle for longer than `days`; returns how many were removed
+  // Reads only the summaries index, so no session has to be loaded or decrypted
+  async applyRetention(userId: string, days: number, keepId?: string): Promise<number> {
+    if (!this.db) await this.init();
+    await this.ensureSummaries(userId);
+    const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+    const tx = this.db!.transaction('sessionSummaries', 'readonly');
+    const range = IDBKeyRange.bound([userId, 0, -Infinity], [userId, 0, cutoff], false, true);
+    const expired = (await promisifyRequest(tx.objectStore('sessionSummaries').index('userPinnedUpdated').getAllKeys(range)) as string[])
+      .filter(id => id !== keepId);
+    if (expired.length > 0) await this.deleteSessions(expired);
+    return expired.length;
+  }
+
+  // --- Backup Operations ---
+
+  async exportUserData(userId: string): Promise<BackupArchive> {
+    const user = await this.getUser(userId);
+    if (!user) throw new Error("Profile not found");
+    const { passwordHash, passwordParams, failedLogins, ...profile } = user;
+    const sessions = await this.getSessions(userId);
+    const modes = await this.getModes(userId);
+
+    const hashes = new Set<string>();
+    sessions.forEach(s => allMessages(s).forEach(m => m.images?.forEach(img => hashes.add(img.hash))));
+
+    const attachments: BackupArchive['attachments'] = [];
+    for (const hash of hashes) {
+      const record = await this.getAttachment(hash);
+      if (record) attachments.push({ hash, mimeType: record.mimeType, data: await blobToBase64(record.blob) });
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: Date.now(),
+      profile,
+      sessions,
+      attachments,
+      modes
+    };
+  }
+
+  // Imports the archive's sessions into `userId`. Sessions whose id is taken by another
+  // user, or by a different version of the same conversation, get a fresh id.
+  // Everything is staged before the first session is written. In replace mode the old
+  // sessions are removed only after the imported ones are stored, so an import that
+  // fails halfway never leaves the profile with less than it had.
+  async importUserData(userId: string, archive: BackupArchive, mode: ImportMode): Promise<ImportSummary> {
+    const summary: ImportSummary = { imported: 0, skipped: 0, renamed: 0, attachments: 0 };
+    const replaced = new Set(mode === 'replace' ? await this.getSessionIds(userId) : []);
+
+    // Re-hash on the way in: the stored hash is only trusted if the bytes agree
+    const hashMap = new Map<string, string>();
+    for (const a of archive.attachments) {
+      const ref = await this.putAttachment({ data: a.data, mimeType: a.mimeType, previewUri: '' }, userId);
+      hashMap.set(a.hash, ref.hash);
+      summary.attachments++;
+    }
+
+    // Modes keep their ids so imported sessions still find them; an id owned by another
+    // profile can't be reused, and sessions referring to it fall back to the default mode
+    for (const imported of archive.modes || []) {
+      const owner = await this.getModeOwner(imported.id);
+      if (owner && owner !== userId) continue;
+      await this.saveMode({ ...imported, userId, builtIn: undefined });
+    }
+
+    const staged: ChatSession[] = [];
+    for (const imported of archive.sessions) {
+      const remapped = mapMessages(imported, m => {
+        if (!m.images) return m;
+        const images = m.images.filter(img => hashMap.has(img.hash)).map(img => ({ ...img, hash: hashMap.get(img.hash)! }));
+        return { ...m, images: images.length > 0 ? images : undefined };
+      });
+      let session: ChatSession = { ...remapped, userId, appMode: imported.appMode || DEFAULT_MODE.id };
+
+      // A session that is about to be replaced is simply overwritten
+      const existing = replaced.has(session.id) ? undefined : await this.getSession(session.id);
+      if (existing) {
+        if (existing.userId === userId && existing.updatedAt === session.updatedAt) {
+          summary.skipped++;
+          continue;
+        }
+        session = {
+          ...session,
+          id: Date.now().toString() + Math.random().toString(36).substr(2, 5),
+          title: existing.userId === userId ? `${session.title} (imported)` : session.title
+        };
+        summary.renamed++;
+      }
+      staged.push(session);
+    }
+
+    for (const session of staged) {
+      await this.saveSession(session, { force: true });
+      replaced.delete(session.id);
+      summary.imported++;
+    }
+    for (const id of replaced) await this.removeSession(id);
+
+    await this.collectAttachmentGarbage().catch(e => console.error("Attachment GC failed", e));
+    return summary;
+  }
+
+  // Re-homes sessions to another profile. Images are stored again under the new owner so
+  // they pick up its encryption; the old copies go once nothing references them. Custom
+  // modes the sessions use move with them, so the chats keep their mode.
+  async moveSessions(fromUserId: string, toUserId: string, sessionIds: string[]): Promise<number> {
+    let moved = 0;
+    const usedModes = new Set<AppMode>();
+    for (const id of sessionIds) {
+      const session = await this.getSession(id);
+      if (!session || session.userId !== fromUserId) continue;
+      usedModes.add(session.appMode);
+
+      const hashMap = new Map<string, string>();
+      for (const hash of new Set(allMessages(session).flatMap(m => m.images?.map(img => img.hash) || []))) {
+        const record = await this.getAttachment(hash);
+        if (record) hashMap.set(hash, (await this.putAttachmentBytes(await record.blob.arrayBuffer(), record.mimeType, toUserId)).hash);
+      }
+      const remapped = mapMessages(session, m => {
+        if (!m.images) return m;
+        const images = m.images.filter(img => hashMap.has(img.hash)).map(img => ({ ...img, hash: hashMap.get(img.hash)! }));
+        return { ...m, images: images.length > 0 ? images : undefined };
+      });
+
+      // Overwritten in place: the summary is replaced and the search index moves its entries
+      // to the new owner, so a failed write leaves the conversation with its old owner
+      await this.saveSession({ ...remapped, userId: toUserId }, { force: true });
+      moved++;
+    }
+    for (const mode of await this.getModes(fromUserId)) {
+      if (usedModes.has(mode.id)) await this.saveMode({ ...mode, userId: toUserId });
+    }
+    return moved;
+  }
+
+  // --- Search Operations ---
+
+  async searchSessions(userId: string, query: string, limit = 50): Promise<SearchResult[]> {
+    if (!this.db) await this.init();
+    const tokens = [...new Set(tokenize(query))];
+    if (tokens.length === 0) return [];
+
+    // Every token is treated as a prefix so results update while typing
+    let perToken: Map<string, Set<string>>[];
+    let candidates: ChatSession[] | null = null;
+
+    if (this.keys.has(userId)) {
+      // Encrypted profiles have no on-disk index; scan the decrypted sessions instead
+      candidates = await this.getSessions(userId);
+      const termsBySession = candidates.map(s => [s.id, extractSearchTerms(s)] as const);
+      perToken = tokens.map(token => {
+        const hits = new Map<string, Set<string>>();
+        termsBySession.forEach(([sessionId, terms]) => {
+          Object.entries(terms).forEach(([term, refs]) => {
+            if (!term.startsWith(token)) return;
+            if (!hits.has(sessionId)) hits.set(sessionId, new Set());
+            refs.forEach(ref => hits.get(sessionId)!.add(ref));
+          });
+        });
+        return hits;
+      });
+    } else {
+      const termTx = this.db!.transaction('searchTerms', 'readonly');
+      const termStore = termTx.objectStore('searchTerms');
+      perToken = await Promise.all(tokens.map(token =>
+        promisifyRequest(termStore.getAll(IDBKeyRange.bound(`${userId}|${token}`, `${userId}|${token}\uffff`)))
+          .then(records => {
+            const hits = new Map<string, Set<string>>();
+            (records as SearchTermRecord[]).forEach(r => {
+              Object.entries(r.postings).forEach(([sessionId, refs]) => {
+                if (!hits.has(sessionId)) hits.set(sessionId, new Set());
+                refs.forEach(ref => hits.get(sessionId)!.add(ref));
+              });
+            });
+            return hits;
+          })
+      ));
+    }
+
+    // A session must match all tokens; prefer messages that match all of them on their own
+    const sessionIds = [...perToken[0].keys()].filter(id => perToken.every(hits => hits.has(id)));
+    if (sessionIds.length === 0) return [];
+
+    let sessions: ChatSession[];
+    if (candidates) {
+      sessions = candidates.filter(s => sessionIds.includes(s.id));
+    } else {
+      const sessionTx = this.db!.transaction('sessions', 'readonly');
+      const sessionStore = sessionTx.objectStore('sessions');
+      sessions = (await Promise.all(sessionIds.map(id => promisifyRequest(sessionStore.get(id)))))
+        .filter(Boolean) as ChatSession[];
+    }
+    sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+
+    const results: SearchResult[] = [];
+    for (const session of sessions) {
+      const refSets = perToken.map(hits => hits.get(session.id)!);
+      let refs = [...refSets[0]].filter(ref => refSets.every(set => set.has(ref)));
+      if (refs.length === 0) refs = [...new Set(refSets.flatMap(set => [...set]))];
+
+      const messageRefs = allMessages(session).filter(m => refs.includes(m.id)).slice(-3);
+      if (messageRefs.length === 0 || refs.includes(TITLE_REF)) {
+        results.push({
+          sessionId: session.id,
+          sessionTitle: session.title,
+          field: 'title',
+          snippet: buildSnippet(session.title, tokens),
+          updatedAt: session.updatedAt
+        });
+      }
+      messageRefs.forEach(m => {
+        const inText = tokens.some(t => m.text.toLowerCase().includes(t));
+        const sourceText = (m.sources || []).map(s => s.title).join(' · ');
+        results.push({
+          sessionId: session.id,
+          sessionTitle: session.title,
+          messageId: m.id,
+          field: inText ? 'message' : 'source',
+          snippet: buildSnippet(inText ? m.text : sourceText, tokens),
+          updatedAt: session.updatedAt
+        });
+      });
+      if (results.length >= limit) break;
+    }
+    return results.slice(0, limit);
   }
 }
 
 const db = new DBService();
 
-// --- API Client ---
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// --- Model Providers ---
+// Implementations of the ModelProvider contract in chatEngine.ts
+
+// Errors sent inside an OpenAI-style stream have no HTTP status. OpenAI names the kind in
+// `type`/`code`, llama.cpp puts the status in a numeric `code` and Ollama sends only a string.
+const classifyStreamError = (error: unknown): ModelError => {
+  const e = (typeof error === 'string' ? { message: error } : error || {}) as { message?: string; type?: string; code?: string | number };
+  const message = e.message || 'Model server error';
+  if (typeof e.code === 'number') return new ModelError(kindForStatus(e.code, message), message, e.code);
+  const label = typeof error === 'string' ? error : `${e.type || ''} ${e.code || ''}`;
+  if (/insufficient_quota|billing/i.test(label)) return new ModelError('quota', message);
+  if (/rate.?limit|too many requests/i.test(label)) return new ModelError('rate-limit', message);
+  if (/server_error|unavailable|overloaded|timeout/i.test(label)) return new ModelError('server', message);
+  if (/invalid_api_key|authentication|permission/i.test(label)) return new ModelError('auth', message);
+  return classifyModelError(new Error(message)); // Still catches "429 ..." style messages
+};
+
+// Retry-After is either delay-seconds or an HTTP date
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const createGeminiProvider = (apiKey: string, models = GEMINI_MODELS): ModelProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    id: 'gemini',
+    label: 'Gemini',
+    model: models[0],
+    models,
+    capabilities: { images: true, webSearch: true, thinking: true },
+    contextWindow: 1048576,
+    streamChat: async (request) => {
+      const config: Record<string, unknown> = { systemInstruction: request.systemInstruction, abortSignal: request.signal };
+      if (request.webSearch) config.tools = [{ googleSearch: {} }];
+      if (request.thinkingBudget !== undefined) config.thinkingConfig = { thinkingBudget: request.thinkingBudget };
+      if (request.temperature !== undefined) config.temperature = request.temperature;
+
+      const stream = await ai.models.generateContentStream({
+        model: request.model || models[0],
+        contents: request.turns.map(turn => ({
+          role: turn.role,
+          parts: turn.parts.map(part => part.image
+            ? { inlineData: { mimeType: part.image.mimeType, data: part.image.data } }
+            : { text: part.text || '' })
+        })),
+        config
+      });
+
+      return (async function* () {
+        for await (const chunk of stream) {
+          // Blocked prompts and answers arrive as a normal chunk, not an HTTP error
+          const blockReason = chunk.promptFeedback?.blockReason;
+          const finishReason = chunk.candidates?.[0]?.finishReason;
+          if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT' || finishReason === 'BLOCKLIST') {
+            throw new ModelError('safety', `Response blocked: ${blockReason || finishReason}`);
+          }
+          const grounding = chunk.candidates?.[0]?.groundingMetadata;
+          const groundingChunks = grounding?.groundingChunks || [];
+          const sources = groundingChunks
+            .filter(c => c.web?.uri && c.web?.title)
+            .map(c => ({ title: c.web!.title!, uri: c.web!.uri! }));
+          const supports = (grounding?.groundingSupports || [])
+            .map(support => ({
+              text: support.segment?.text,
+              endByte: support.segment?.endIndex,
+              sourceUris: (support.groundingChunkIndices || [])
+                .map(i => groundingChunks[i]?.web?.uri)
+                .filter((uri): uri is string => !!uri)
+            }))
+            .filter(support => support.sourceUris.length > 0);
+          const usage = chunk.usageMetadata;
+          yield {
+            text: chunk.text || '',
+            sources: sources.length > 0 ? sources : undefined,
+            supports: supports.length > 0 ? supports : undefined,
+            usage: usage ? {
+              inputTokens: usage.promptTokenCount,
+              outputTokens: usage.candidatesTokenCount,
+              totalTokens: usage.totalTokenCount
+            } : undefined
+          };
+        }
+      })();
+    }
+  };
+};
+
+// Any server speaking the OpenAI chat completions API: Ollama, llama.cpp, vLLM, LM Studio...
+interface OpenAICompatibleOptions {
+  baseUrl: string;
+  model: string;
+  models?: string[]; // Alternatives to `model` offered in the session settings
+  apiKey?: string;
+  contextWindow?: number;
+}
+
+const createOpenAICompatibleProvider = ({ baseUrl, model, models = [], apiKey, contextWindow = OPENAI_DEFAULT_CONTEXT_WINDOW }: OpenAICompatibleOptions): ModelProvider => ({
+  id: 'openai',
+  label: model,
+  model,
+  models: [...new Set([model, ...models])],
+  capabilities: { images: true, webSearch: false, thinking: false },
+  contextWindow,
+  streamChat: async (request) => {
+    const messages = [
+      { role: 'system', content: request.systemInstruction },
+      ...request.turns.map(turn => ({
+        role: turn.role === 'model' ? 'assistant' : 'user',
+        content: turn.parts.map(part => part.image
+          ? { type: 'image_url', image_url: { url: `data:${part.image.mimeType};base64,${part.image.data}` } }
+          : { type: 'text', text: part.text || '' })
+      }))
+    ];
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: request.model || model,
+        messages,
+        temperature: request.temperature,
+        stream: true,
+        stream_options: { include_usage: true }
+      }),
+      signal: request.signal
+    });
+    if (!response.ok || !response.body) {
+      const detail = await response.text().catch(() => '');
+      throw new ModelError(
+        kindForStatus(response.status, detail),
+        `${response.status} ${response.statusText}: ${detail.slice(0, 300)}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+    const body = response.body;
+
+    // Server-sent events: one JSON payload per `data:` line, terminated by [DONE]
+    return (async function* () {
+      const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, '');
+          if (!line.trim().startsWith('data:') || !data) continue;
+          if (data === '[DONE]') return;
+          const event = JSON.parse(data);
+          if (event.error) throw classifyStreamError(event.error);
+          yield {
+            text: event.choices?.[0]?.delta?.content || '',
+            usage: event.usage ? {
+              inputTokens: event.usage.prompt_tokens,
+              outputTokens: event.usage.completion_tokens,
+              totalTokens: event.usage.total_tokens
+            } : undefined
+          };
+        }
+      }
+    })();
+  }
+});
+
+// Offline stand-in for development and demos. The same request always produces the
+// same answer, streamed in small chunks like a real model. It searches nothing; with
+// search on it attaches placeholder sources so the sources UI can be exercised.
+const createMockModelProvider = (): ModelProvider => ({
+  id: 'mock',
+  label: 'Mock Model',
+  model: 'mock',
+  models: ['mock'],
+  capabilities: { images: true, webSearch: false, thinking: false, fakeSources: true },
+  contextWindow: 8192,
+  streamChat: async (request) => {
+    const lastTurn = request.turns[request.turns.length - 1];
+    const question = lastTurn?.parts.map(p => p.text || '').join(' ').trim() || '';
+    const imageCount = lastTurn?.parts.filter(p => p.image).length || 0;
+    const seed = [...question].reduce((hash, ch) => (hash * 31 + ch.charCodeAt(0)) >>> 0, 7);
+    const topic = question.split(/\s+/).slice(0, 6).join(' ') || 'your images';
+
+    const answer = [
+      `## Key Findings`,
+      ``,
+      `This is a **mock response** (#${seed % 1000}) about "${topic}".`,
+      imageCount > 0 ? `I received ${imageCount} image${imageCount === 1 ? '' : 's'} with this question.` : '',
+      ``,
+      `- Point one explains the basics.`,
+      `- Point two adds some detail.`,
+      `- Point three wraps it up.`,
+      ``,
+      `No network request was made.`
+    ].filter((line, i, all) => line !== '' || all[i - 1] !== '').join('\n');
+    const sources: Source[] | undefined = request.webSearch ? [
+      { title: `Example reference on ${topic}`, uri: `https://example.com/search?q=${encodeURIComponent(topic)}` },
+      { title: 'Mock Encyclopedia', uri: `https://example.org/wiki/${seed % 97}` }
+    ] : undefined;
+    // Cites the first two points the way Gemini would, with byte offsets into the answer
+    const supports: ModelSupport[] | undefined = sources && [
+      { text: 'Point one explains the basics.', sourceUris: [sources[0].uri] },
+      { text: 'Point two adds some detail.', sourceUris: [sources[0].uri, sources[1].uri] }
+    ].map(support => ({
+      ...support,
+      endByte: new TextEncoder().encode(answer.slice(0, answer.indexOf(support.text) + support.text.length)).length
+    }));
+
+    const inputTokens = request.turns.reduce((n, t) => n + t.parts.reduce((m, p) => m + Math.ceil((p.text || '').length / 4), 0), 0);
+    const words = answer.split(/(?<=\s)/);
+    return (async function* () {
+      for (let i = 0; i < words.length; i += 3) {
+        await new Promise(r => setTimeout(r, 30));
+        request.signal?.throwIfAborted();
+        const outputTokens = Math.min(i + 3, words.length);
+        yield {
+          text: words.slice(i, i + 3).join(''),
+          sources: i === 0 ? sources : undefined,
+          supports: i + 3 >= words.length ? supports : undefined,
+          usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens }
+        };
+      }
+    })();
+  }
+});
+
+const createModelProvider = (): ModelProvider => {
+  const configured = process.env.MODEL_PROVIDER as ModelProviderId | undefined;
+  const id = configured || (process.env.API_KEY ? 'gemini' : 'mock');
+  switch (id) {
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || OPENAI_DEFAULT_BASE_URL,
+        model: process.env.OPENAI_MODEL || 'llama3.2',
+        models: (process.env.OPENAI_MODELS || '').split(',').map(m => m.trim()).filter(Boolean),
+        apiKey: process.env.OPENAI_API_KEY,
+        contextWindow: Number(process.env.OPENAI_CONTEXT_WINDOW) || undefined
+      });
+    case 'mock':
+      return createMockModelProvider();
+    default:
+      return createGeminiProvider(process.env.API_KEY || '');
+  }
+};
+
+const modelProvider = createModelProvider();
 
 // --- Helper Functions ---
-const getErrorMessage = (error: any): string => {
+const getErrorMessage = (error: unknown): string => {
   if (!error) return "An unknown error occurred.";
-  const msg = error.message || error.toString();
   console.error("Raw API Error:", error);
-
-  if (msg.includes("SAFETY") || msg.includes("BLOCKED")) return "I cannot answer this query because it triggers my safety filters.";
-  if (msg.includes("401") || msg.includes("API key")) return "Authentication failed. Please verify your API key.";
-  if (msg.includes("429") || msg.includes("403")) return "I'm receiving too many requests right now. Please wait.";
-  if (msg.includes("500") || msg.includes("503")) return "My servers are currently overloaded. Please try again later.";
-  if (msg.includes("fetch") || msg.includes("Failed to fetch")) return "Network error. Please check your connection.";
-
-  return "I encountered an unexpected error.";
+  const { kind, retryAfterMs } = classifyModelError(error);
+
+  switch (kind) {
+    case 'safety': return "I cannot answer this query because it triggers my safety filters.";
+    case 'auth': return "Authentication failed. Please verify your API key and its permissions.";
+    case 'quota': return "The API quota for this key is used up. Check your plan or try again later.";
+    case 'rate-limit':
+      return retryAfterMs
+        ? `I'm receiving too many requests right now. Please try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`
+        : "I'm receiving too many requests right now. Please wait.";
+    case 'server': return "My servers are currently overloaded. Please try again later.";
+    case 'network': return "Network error. Please check your connection.";
+    default: return "I encountered an unexpected error.";
+  }
 };
 
 const fileToBase64 = (file: File): Promise<ImageAttachment> => {
@@ -220,8 +2272,56 @@ const fileToBase64 = (file: File): Promise<ImageAttachment> => {
   });
 };
 
-const formatTimeAgo = (timestamp: number) => {
-  const seconds = Math.floor((Date.now() - timestamp) / 1000);
+const isQuotaError = (error: any): boolean =>
+  error?.name === 'QuotaExceededError' || error?.inner?.name === 'QuotaExceededError';
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Object URLs for attachments, shared by every message and thumbnail showing the same image
+const attachmentUrlCache = new Map<string, Promise<string | null>>();
+
+const getAttachmentUrl = (hash: string): Promise<string | null> => {
+  if (!attachmentUrlCache.has(hash)) {
+    attachmentUrlCache.set(hash, db.getAttachment(hash)
+      .then(record => record ? URL.createObjectURL(record.blob) : null)
+      .catch(e => {
+        console.error("Failed to load attachment", e);
+        attachmentUrlCache.delete(hash);
+        return null;
+      }));
+  }
+  return attachmentUrlCache.get(hash)!;
+};
+
+// Decrypted images must not stay reachable once their owner signs out
+const clearAttachmentUrlCache = () => {
+  attachmentUrlCache.forEach(p => p.then(url => { if (url?.startsWith('blob:')) URL.revokeObjectURL(url); }));
+  attachmentUrlCache.clear();
+};
+
+// Rebuilds the Gemini inline part for an image stored in an earlier message
+const attachmentToModelPart = async (ref: AttachmentRef): Promise<ModelPart | null> => {
+  const record = await db.getAttachment(ref.hash);
+  if (!record) return null;
+  return { image: { mimeType: ref.mimeType, data: await blobToBase64(record.blob) } };
+};
+
+const formatTimeAgo = (timestamp: number) => {
+  const seconds = Math.floor((Date.now() - timestamp) / 1000);
   if (seconds < 60) return 'Just now';
   const minutes = Math.floor(seconds / 60);
   if (minutes < 60) return `${minutes}m ago`;
@@ -231,6 +2331,582 @@ const formatTimeAgo = (timestamp: number) => {
   return `${days}d ago`;
 };
 
+// --- Modes ---
+// A mode bundles a system prompt with a look and tool settings. The three built-in modes
+// always exist; users add their own, which are stored per profile in the `modes` store.
+// Colors and icons are picked from fixed sets so Tailwind sees every class name.
+interface ModeTheme {
+  accent: string; // Text color for labels
+  soft: string; // Lighter text, e.g. the "mode active" banner
+  logo: string; // Gradient stops for the header logo
+  title: string; // Gradient stops for the header title
+  messageBg: string;
+  button: string;
+  glow: string;
+  dot: string;
+  ping: string;
+  toggle: string; // Active mode toggle in the header
+}
+
+const MODE_THEMES: Record<ModeColor, ModeTheme> = {
+  cyan: {
+    accent: 'text-cyan-400', soft: 'text-cyan-300', logo: 'from-cyan-400 to-blue-600', title: 'from-cyan-400 to-blue-500',
+    messageBg: 'message-ai', button: 'bg-indigo-600 hover:bg-indigo-500', glow: 'bg-gradient-to-r from-cyan-500 to-blue-600',
+    dot: 'bg-cyan-500', ping: 'bg-cyan-400', toggle: 'bg-cyan-500/20 text-cyan-200'
+  },
+  violet: {
+    accent: 'text-violet-400', soft: 'text-violet-300', logo: 'from-violet-500 to-fuchsia-600', title: 'from-violet-400 to-fuchsia-500',
+    messageBg: 'bg-slate-800 border border-violet-500/30', button: 'bg-violet-600 hover:bg-violet-500', glow: 'bg-gradient-to-r from-violet-500 to-fuchsia-600',
+    dot: 'bg-violet-500', ping: 'bg-violet-400', toggle: 'bg-violet-500/20 text-violet-200'
+  },
+  emerald: {
+    accent: 'text-emerald-400', soft: 'text-emerald-300', logo: 'from-emerald-400 to-teal-600', title: 'from-emerald-400 to-teal-500',
+    messageBg: 'bg-slate-800 border border-emerald-500/30', button: 'bg-emerald-600 hover:bg-emerald-500', glow: 'bg-gradient-to-r from-emerald-500 to-teal-600',
+    dot: 'bg-emerald-500', ping: 'bg-emerald-400', toggle: 'bg-emerald-500/20 text-emerald-200'
+  },
+  amber: {
+    accent: 'text-amber-400', soft: 'text-amber-300', logo: 'from-amber-400 to-orange-600', title: 'from-amber-400 to-orange-500',
+    messageBg: 'bg-slate-800 border border-amber-500/30', button: 'bg-amber-600 hover:bg-amber-500', glow: 'bg-gradient-to-r from-amber-500 to-orange-600',
+    dot: 'bg-amber-500', ping: 'bg-amber-400', toggle: 'bg-amber-500/20 text-amber-200'
+  },
+  rose: {
+    accent: 'text-rose-400', soft: 'text-rose-300', logo: 'from-rose-400 to-pink-600', title: 'from-rose-400 to-pink-500',
+    messageBg: 'bg-slate-800 border border-rose-500/30', button: 'bg-rose-600 hover:bg-rose-500', glow: 'bg-gradient-to-r from-rose-500 to-pink-600',
+    dot: 'bg-rose-500', ping: 'bg-rose-400', toggle: 'bg-rose-500/20 text-rose-200'
+  },
+  sky: {
+    accent: 'text-sky-400', soft: 'text-sky-300', logo: 'from-sky-400 to-indigo-600', title: 'from-sky-400 to-indigo-500',
+    messageBg: 'bg-slate-800 border border-sky-500/30', button: 'bg-sky-600 hover:bg-sky-500', glow: 'bg-gradient-to-r from-sky-500 to-indigo-600',
+    dot: 'bg-sky-500', ping: 'bg-sky-400', toggle: 'bg-sky-500/20 text-sky-200'
+  }
+};
+
+// Outline icons (24x24, stroked)
+const MODE_ICON_PATHS: Record<ModeIcon, string[]> = {
+  chat: ['M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z'],
+  tutor: [
+    'M12 14l9-5-9-5-9 5 9 5z',
+    'M12 14l6.16-3.422a12.083 12.083 0 01.665 6.479A11.952 11.952 0 0012 20.055a11.952 11.952 0 00-6.824-2.998 12.078 12.078 0 01.665-6.479L12 14z'
+  ],
+  research: ['M19.428 15.428a2 2 0 00-1.022-.547l-2.384-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z'],
+  code: ['M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4'],
+  scale: ['M3 6l3 1m0 0l-3 9a5.002 5.002 0 006.001 0M6 7l3 9M6 7l6-2m6 2l3-1m-3 1l-3 9a5.002 5.002 0 006.001 0M18 7l3 9m-3-9l-6-2m0-2v2m0 16V5m0 16H9m3 0h3'],
+  pen: ['M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z'],
+  sparkles: ['M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z']
+};
+
+const RESEARCH_THINKING_BUDGET = 2048;
+
+const BUILT_IN_MODES: ChatMode[] = [
+  {
+    id: 'standard',
+    name: 'BorAI',
+    color: 'cyan',
+    icon: 'chat',
+    builtIn: true,
+    tools: {},
+    prompt: `You are BorAI. Synthesise information from all available sources on the web to provide the ultimate best answer.
+Instructions:
+1. SEARCH: Use search extensively.
+2. MULTIMODAL: Analyze provided images.
+3. KEY FINDINGS: For research queries, start with "## Key Findings" (translated).
+4. OUTPUT: Answer in \${language}.`
+  },
+  {
+    id: 'tutor',
+    name: 'Tutor',
+    color: 'violet',
+    icon: 'tutor',
+    builtIn: true,
+    placeholder: 'Paste a problem or upload homework...',
+    tools: {},
+    prompt: `You are BorAI Tutor.
+Instructions:
+1. IDENTIFY: Determine subject and concept.
+2. STEP-BY-STEP: Break down solutions. Explain *why*.
+3. ENCOURAGE: Maintain academic tone.
+4. OUTPUT: Answer in \${language}.`
+  },
+  {
+    id: 'research',
+    name: 'Research',
+    color: 'emerald',
+    icon: 'research',
+    builtIn: true,
+    placeholder: 'Enter a research topic...',
+    tools: { thinkingBudget: RESEARCH_THINKING_BUDGET, deepResearch: true },
+    prompt: `You are BorAI Researcher.
+Instructions:
+1. DEEP SEARCH: Granular, recent data.
+2. CROSS-REFERENCE: Verify facts.
+3. REPORT FORMAT: Executive Summary, Detailed Analysis, Data/Stats.
+4. CITATIONS: Required.
+5. OUTPUT: Answer in \${language}.`
+  }
+];
+
+const DEFAULT_MODE = BUILT_IN_MODES[0];
+
+// Sessions whose mode was deleted (or belongs to another profile) fall back to the default
+const findMode = (modes: ChatMode[], id: AppMode): ChatMode => modes.find(m => m.id === id) || DEFAULT_MODE;
+
+// --- Chat Engine ---
+const chatEngine = new ChatEngine({ provider: modelProvider, loadAttachment: attachmentToModelPart });
+
+// --- Conversation Export ---
+type ExportFormat = 'markdown' | 'html' | 'print';
+
+interface ExportReference extends Source {
+  number: number;
+}
+
+// One numbered list for the whole session, deduplicated by URI in order of first citation
+const collectReferences = (session: ChatSession) => {
+  const references: ExportReference[] = [];
+  const byMessage = new Map<string, number[]>();
+  session.messages.forEach(m => {
+    const numbers: number[] = [];
+    m.sources?.forEach(src => {
+      let ref = references.find(r => r.uri === src.uri);
+      if (!ref) {
+        ref = { ...src, number: references.length + 1 };
+        references.push(ref);
+      }
+      if (!numbers.includes(ref.number)) numbers.push(ref.number);
+    });
+    if (numbers.length > 0) byMessage.set(m.id, numbers);
+  });
+  return { references, byMessage };
+};
+
+// The answer with its inline citations renumbered to the export's reference list
+const citedText = (m: Message, references: ExportReference[], marker: (number: number) => string): string => {
+  if (!m.citations?.length || !m.sources?.length) return m.text;
+  return insertCitationMarkers(m.text, m.citations, i => {
+    const ref = references.find(r => r.uri === m.sources![i]?.uri);
+    return ref ? marker(ref.number) : '';
+  });
+};
+
+// Inline citations in the HTML export link to the references list as superscripts
+const EXPORT_MARKDOWN_COMPONENTS: Components = {
+  a: ({ node, href, children, ...props }) =>
+    href?.startsWith('#ref-') ? <sup><a href={href} {...props}>{children}</a></sup> : <a href={href} {...props}>{children}</a>
+};
+
+const exportableMessages = (session: ChatSession) =>
+  session.messages.filter(m => m.id !== GREETING_ID && !m.isError && (m.text || m.images?.length));
+
+const exportFilename = (session: ChatSession, ext: string) => {
+  const slug = session.title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '').slice(0, 60);
+  return `${slug || 'conversation'}.${ext}`;
+};
+
+// Model answers keep their own heading structure (e.g. research reports); user turns
+// become blockquotes so they don't compete with it.
+const sessionToMarkdown = (session: ChatSession): string => {
+  const { references, byMessage } = collectReferences(session);
+  const lines: string[] = [`# ${session.title}`, '', `*Exported from BorAI on ${new Date().toLocaleString()}*`, ''];
+
+  exportableMessages(session).forEach(m => {
+    lines.push('---', '');
+    if (m.role === 'user') {
+      const images = m.images?.length ? ` *(${m.images.length} image${m.images.length === 1 ? '' : 's'} attached)*` : '';
+      lines.push(...`**You:** ${m.text}${images}`.split('\n').map(l => `> ${l}`), '');
+    } else {
+      lines.push(citedText(m, references, n => `[${n}]`).trim(), '');
+      const cited = byMessage.get(m.id);
+      if (cited) lines.push(`Sources: ${cited.map(n => `[${n}]`).join(' ')}`, '');
+    }
+  });
+
+  if (references.length > 0) {
+    lines.push('---', '', '## References', '');
+    references.forEach(r => lines.push(`${r.number}. [${r.title}](${r.uri})`));
+    lines.push('');
+  }
+  return lines.join('\n');
+};
+
+const EXPORT_STYLES = `
+  body { font-family: Inter, -apple-system, 'Segoe UI', sans-serif; max-width: 780px; margin: 40px auto; padding: 0 24px; color: #0f172a; line-height: 1.6; }
+  h1, h2, h3 { font-family: 'Space Grotesk', sans-serif; line-height: 1.25; }
+  .meta { color: #64748b; font-size: 13px; margin-bottom: 32px; }
+  .turn { padding: 20px 0; border-top: 1px solid #e2e8f0; }
+  .user { background: #f1f5f9; border-left: 3px solid #4f46e5; padding: 12px 16px; border-radius: 4px; }
+  .label { font-size: 11px; font-weight: 600; letter-spacing: 0.08em; color: #64748b; margin-bottom: 6px; }
+  .images img { max-width: 100%; max-height: 360px; border-radius: 6px; margin: 8px 8px 0 0; }
+  .cited { font-size: 13px; color: #64748b; }
+  .cited a, .references a { color: #4f46e5; }
+  pre { background: #f8fafc; padding: 12px; overflow-x: auto; border-radius: 6px; }
+  table { border-collapse: collapse; } th, td { border: 1px solid #cbd5e1; padding: 4px 8px; }
+  .references { border-top: 2px solid #0f172a; margin-top: 32px; padding-top: 8px; }
+  .references li { word-break: break-word; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    .turn { break-inside: avoid-page; }
+    h1, h2, h3 { break-after: avoid-page; }
+    a { color: inherit; text-decoration: none; }
+  }
+`;
+
+// Self-contained HTML: markdown is pre-rendered and images are inlined as data URIs
+const sessionToHtml = async (session: ChatSession): Promise<string> => {
+  const { references, byMessage } = collectReferences(session);
+  const messages = exportableMessages(session);
+
+  const imageUris = new Map<string, string>();
+  for (const m of messages) {
+    for (const img of m.images || []) {
+      if (imageUris.has(img.hash)) continue;
+      const record = await db.getAttachment(img.hash);
+      if (record) imageUris.set(img.hash, `data:${img.mimeType};base64,${await blobToBase64(record.blob)}`);
+    }
+  }
+
+  const body = renderToStaticMarkup(
+    <>
+      <h1>{session.title}</h1>
+      <div className="meta">Exported from BorAI on {new Date().toLocaleString()}</div>
+      {messages.map(m => (
+        <div key={m.id} className="turn">
+          <div className="label">{m.role === 'user' ? 'YOU' : 'BORAI'}</div>
+          <div className={m.role === 'user' ? 'user' : undefined}>
+            {m.images && m.images.length > 0 && (
+              <div className="images">
+                {m.images.map((img, idx) => imageUris.has(img.hash) && <img key={idx} src={imageUris.get(img.hash)} alt="Attachment" />)}
+              </div>
+            )}
+            <ReactMarkdown components={EXPORT_MARKDOWN_COMPONENTS}>{citedText(m, references, n => `[[${n}]](#ref-${n})`)}</ReactMarkdown>
+          </div>
+          {byMessage.has(m.id) && (
+            <p className="cited">
+              Sources: {byMessage.get(m.id)!.map(n => <React.Fragment key={n}><a href={`#ref-${n}`}>[{n}]</a> </React.Fragment>)}
+            </p>
+          )}
+        </div>
+      ))}
+      {references.length > 0 && (
+        <div className="references">
+          <h2>References</h2>
+          <ol>
+            {references.map(r => (
+              <li key={r.number} id={`ref-${r.number}`}><a href={r.uri}>{r.title}</a></li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </>
+  );
+
+  const title = session.title.replace(/[<>&"]/g, c => `&#${c.charCodeAt(0)};`);
+  return `<!DOCTYPE html><html><head><meta charset="UTF-8" /><title>${title}</title><style>${EXPORT_STYLES}</style></head><body>${body}</body></html>`;
+};
+
+const exportSession = async (session: ChatSession, format: ExportFormat) => {
+  if (format === 'markdown') {
+    downloadFile(exportFilename(session, 'md'), sessionToMarkdown(session), 'text/markdown');
+    return;
+  }
+  if (format === 'html') {
+    downloadFile(exportFilename(session, 'html'), await sessionToHtml(session), 'text/html');
+    return;
+  }
+
+  // Open the window synchronously so popup blockers treat it as user-initiated
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) throw new Error("Allow pop-ups for BorAI to open the print view.");
+  printWindow.document.write('<p style="font-family: sans-serif">Preparing print view...</p>');
+  const html = await sessionToHtml(session);
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  // Images are data URIs, so a short delay is enough for layout to settle
+  setTimeout(() => printWindow.print(), 300);
+};
+
+// --- Identity Providers ---
+// Social sign-in runs the OAuth 2.0 authorization code flow with PKCE in a popup. The
+// popup returns to this app, which hands the redirect URL back over a BroadcastChannel.
+type SocialProviderId = 'google' | 'microsoft' | 'oidc';
+
+interface OidcProviderConfig {
+  issuer: string;
+  clientId: string;
+  scopes: string[];
+}
+
+interface OidcMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface IdentityClaims {
+  uid: string;
+  email: string;
+  displayName: string;
+  photoURL: string;
+}
+
+interface IdentityProvider {
+  id: SocialProviderId;
+  label: string;
+  isMock: boolean; // Fake accounts for development; never offered in production builds
+  signIn: () => Promise<IdentityClaims>;
+}
+
+const OIDC_POPUP_NAME = 'borai-oidc';
+const OIDC_CHANNEL = 'borai-oidc';
+const OIDC_TIMEOUT_MS = 5 * 60 * 1000;
+const ID_TOKEN_SKEW_S = 60;
+
+const parseScopes = (value?: string) => (value || 'openid email profile').split(/[\s,]+/).filter(Boolean);
+
+const OIDC_CONFIGS: Record<SocialProviderId, OidcProviderConfig & { label: string }> = {
+  google: {
+    label: 'Google',
+    issuer: 'https://accounts.google.com',
+    clientId: process.env.OIDC_GOOGLE_CLIENT_ID || '',
+    scopes: parseScopes(process.env.OIDC_GOOGLE_SCOPES)
+  },
+  microsoft: {
+    label: 'Microsoft',
+    issuer: process.env.OIDC_MICROSOFT_ISSUER || 'https://login.microsoftonline.com/common/v2.0',
+    clientId: process.env.OIDC_MICROSOFT_CLIENT_ID || '',
+    scopes: parseScopes(process.env.OIDC_MICROSOFT_SCOPES)
+  },
+  // Any other OpenID provider, e.g. a local mock server during development
+  oidc: {
+    label: process.env.OIDC_LABEL || 'Single Sign-On',
+    issuer: process.env.OIDC_ISSUER || '',
+    clientId: process.env.OIDC_CLIENT_ID || '',
+    scopes: parseScopes(process.env.OIDC_SCOPES)
+  }
+};
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+  bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const base64UrlDecode = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return base64ToBytes(base64 + '='.repeat((4 - base64.length % 4) % 4));
+};
+
+const randomToken = () => base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+
+const isSecureIssuer = (issuer: string) => {
+  const url = new URL(issuer);
+  return url.protocol === 'https:' || ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+};
+
+const oidcMetadataCache = new Map<string, Promise<OidcMetadata>>();
+const jwksCache = new Map<string, Promise<JsonWebKey[]>>();
+
+const fetchJson = async <T,>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error_description || body?.error || `Request to ${new URL(url).host} failed (${response.status})`);
+  }
+  return body as T;
+};
+
+const discoverOidc = (issuer: string): Promise<OidcMetadata> => {
+  if (!oidcMetadataCache.has(issuer)) {
+    const request = fetchJson<OidcMetadata>(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+    request.catch(() => oidcMetadataCache.delete(issuer));
+    oidcMetadataCache.set(issuer, request);
+  }
+  return oidcMetadataCache.get(issuer)!;
+};
+
+const fetchJwks = (uri: string, refresh = false): Promise<JsonWebKey[]> => {
+  if (refresh || !jwksCache.has(uri)) {
+    const request = fetchJson<{ keys: JsonWebKey[] }>(uri).then(body => body.keys);
+    request.catch(() => jwksCache.delete(uri));
+    jwksCache.set(uri, request);
+  }
+  return jwksCache.get(uri)!;
+};
+
+const JWS_ALGORITHMS: Record<string, { import: RsaHashedImportParams | EcKeyImportParams; verify: AlgorithmIdentifier | EcdsaParams }> = {
+  RS256: { import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verify: 'RSASSA-PKCS1-v1_5' },
+  ES256: { import: { name: 'ECDSA', namedCurve: 'P-256' }, verify: { name: 'ECDSA', hash: 'SHA-256' } }
+};
+
+// Checks signature, issuer, audience, lifetime and nonce; returns the payload
+const verifyIdToken = async (
+  idToken: string,
+  expected: { metadata: OidcMetadata; clientId: string; nonce: string }
+): Promise<Record<string, any>> => {
+  const [headerPart, payloadPart, signaturePart] = idToken.split('.');
+  if (!signaturePart) throw new Error("Malformed ID token");
+  const decodeJson = (part: string) => JSON.parse(new TextDecoder().decode(base64UrlDecode(part)));
+  const header = decodeJson(headerPart);
+  const claims = decodeJson(payloadPart);
+
+  const algorithm = JWS_ALGORITHMS[header.alg];
+  if (!algorithm) throw new Error(`Unsupported ID token algorithm ${header.alg}`);
+  const findKey = (keys: JsonWebKey[]) => keys.find(k => (k as { kid?: string }).kid === header.kid);
+  // Providers rotate keys; an unknown kid means our cached set is stale
+  const jwk = findKey(await fetchJwks(expected.metadata.jwks_uri)) || findKey(await fetchJwks(expected.metadata.jwks_uri, true));
+  if (!jwk) throw new Error("ID token was signed with an unknown key");
+
+  const key = await crypto.subtle.importKey('jwk', jwk, algorithm.import, false, ['verify']);
+  const valid = await crypto.subtle.verify(
+    algorithm.verify,
+    key,
+    base64UrlDecode(signaturePart),
+    new TextEncoder().encode(`${headerPart}.${payloadPart}`)
+  );
+  if (!valid) throw new Error("ID token signature is invalid");
+
+  // Multi-tenant issuers (Microsoft "common") publish a {tenantid} template
+  const issuer = expected.metadata.issuer.replace('{tenantid}', claims.tid || '');
+  if (claims.iss !== issuer) throw new Error("ID token was issued by an unexpected issuer");
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(expected.clientId)) throw new Error("ID token is not meant for this app");
+  if (audiences.length > 1 && claims.azp !== expected.clientId) throw new Error("ID token is not meant for this app");
+  const now = Date.now() / 1000;
+  if (typeof claims.exp !== 'number' || claims.exp < now - ID_TOKEN_SKEW_S) throw new Error("ID token has expired");
+  if (typeof claims.iat === 'number' && claims.iat > now + ID_TOKEN_SKEW_S) throw new Error("ID token is not valid yet");
+  if (claims.nonce !== expected.nonce) throw new Error("ID token nonce does not match");
+  return claims;
+};
+
+// Resolves with the popup's redirect parameters for this `state`
+const waitForOidcCallback = (popup: Window, state: string): Promise<URLSearchParams> =>
+  new Promise((resolve, reject) => {
+    const channel = new BroadcastChannel(OIDC_CHANNEL);
+    const finish = () => {
+      channel.close();
+      clearInterval(closedPoll);
+      clearTimeout(timeout);
+    };
+    channel.onmessage = (event: MessageEvent<string>) => {
+      const params = new URL(event.data).searchParams;
+      if (params.get('state') !== state) return;
+      finish();
+      resolve(params);
+    };
+    const closedPoll = setInterval(() => {
+      if (!popup.closed) return;
+      finish();
+      reject(new Error("Sign-in window was closed"));
+    }, 500);
+    const timeout = setTimeout(() => {
+      finish();
+      popup.close();
+      reject(new Error("Sign-in timed out"));
+    }, OIDC_TIMEOUT_MS);
+  });
+
+// Runs when the provider redirects back. Returns true if this window is the sign-in
+// popup, in which case the app must not render.
+const forwardOidcCallback = (): boolean => {
+  const params = new URLSearchParams(window.location.search);
+  if (!params.has('state') || !(params.has('code') || params.has('error'))) return false;
+  const channel = new BroadcastChannel(OIDC_CHANNEL);
+  channel.postMessage(window.location.href);
+  channel.close();
+  if (window.opener || window.name === OIDC_POPUP_NAME) {
+    window.close();
+    return true;
+  }
+  // Some providers sever the opener; the waiting window still got the message
+  window.history.replaceState(null, '', window.location.pathname);
+  return false;
+};
+
+const createOidcProvider = (id: SocialProviderId, label: string, config: OidcProviderConfig): IdentityProvider => ({
+  id,
+  label,
+  isMock: false,
+  signIn: async () => {
+    // Opened before any await so the browser still counts it as a direct result of the click
+    const popup = window.open('about:blank', OIDC_POPUP_NAME, 'width=500,height=650');
+    if (!popup) throw new Error("Allow pop-ups for this site to sign in");
+
+    try {
+      if (!isSecureIssuer(config.issuer)) throw new Error(`${label} sign-in requires an https issuer`);
+      const metadata = await discoverOidc(config.issuer);
+      const redirectUri = window.location.origin + window.location.pathname;
+      const verifier = randomToken();
+      const state = randomToken();
+      const nonce = randomToken();
+      const challenge = base64UrlEncode(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))));
+
+      const authUrl = new URL(metadata.authorization_endpoint);
+      authUrl.search = new URLSearchParams({
+        response_type: 'code',
+        client_id: config.clientId,
+        redirect_uri: redirectUri,
+        scope: config.scopes.join(' '),
+        state,
+        nonce,
+        code_challenge: challenge,
+        code_challenge_method: 'S256'
+      }).toString();
+      popup.location.href = authUrl.toString();
+
+      const params = await waitForOidcCallback(popup, state);
+      if (params.get('error')) throw new Error(params.get('error_description') || params.get('error')!);
+
+      const tokens = await fetchJson<{ id_token?: string }>(metadata.token_endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code: params.get('code')!,
+          redirect_uri: redirectUri,
+          client_id: config.clientId,
+          code_verifier: verifier
+        })
+      });
+      if (!tokens.id_token) throw new Error(`${label} did not return an ID token`);
+
+      const claims = await verifyIdToken(tokens.id_token, { metadata, clientId: config.clientId, nonce });
+      const name = claims.name || [claims.given_name, claims.family_name].filter(Boolean).join(' ');
+      return {
+        uid: `${id}_${claims.sub}`,
+        // The users store needs a unique email; providers may withhold it
+        email: claims.email || `${claims.sub}@${new URL(metadata.issuer.replace('{tenantid}', 'tenant')).host}`,
+        displayName: name || claims.preferred_username || claims.email || `${label} User`,
+        photoURL: claims.picture || `https://api.dicebear.com/7.x/initials/svg?seed=${encodeURIComponent(name || label)}`
+      };
+    } finally {
+      if (!popup.closed) popup.close();
+    }
+  }
+});
+
+// Stand-in used in development builds when a provider has no client id configured
+const createMockProvider = (id: SocialProviderId, label: string): IdentityProvider => ({
+  id,
+  label,
+  isMock: true,
+  signIn: async () => {
+    // Simulate network delay
+    await new Promise(r => setTimeout(r, 800));
+    return {
+      uid: `local_${id}_user`,
+      email: id === 'google' ? 'user@gmail.com' : id === 'microsoft' ? 'user@outlook.com' : `user@${id}.local`,
+      displayName: `${label} User`,
+      photoURL: `https://api.dicebear.com/7.x/avataaars/svg?seed=${id}`
+    };
+  }
+});
+
+const IDENTITY_PROVIDERS: IdentityProvider[] = (Object.keys(OIDC_CONFIGS) as SocialProviderId[]).flatMap(id => {
+  const { label, ...config } = OIDC_CONFIGS[id];
+  if (config.issuer && config.clientId) return [createOidcProvider(id, label, config)];
+  if (process.env.ENABLE_MOCK_AUTH && id !== 'oidc') return [createMockProvider(id, label)];
+  return [];
+});
+
 // --- Auth Context ---
 interface AuthContextType {
   user: UserProfile | null;
@@ -238,21 +2914,44 @@ interface AuthContextType {
   login: (email: string, pass: string) => Promise<void>;
   register: (email: string, pass: string, name: string) => Promise<void>;
   loginAsGuest: () => void;
-  socialLoginMock: (provider: 'google' | 'microsoft') => Promise<void>;
-  logout: () => void;
+  socialLogin: (provider: SocialProviderId) => Promise<void>;
+  logout: (broadcast?: boolean) => Promise<void>;
+  isSigningOut: boolean; // From the start of a sign-out until the profile is gone
   showLoginModal: boolean;
   setShowLoginModal: (show: boolean) => void;
   authError: string | null;
   setAuthError: (err: string | null) => void;
+  updatePreferences: (updates: Partial<UserPreferences>) => Promise<void>;
+  changePassword: (currentPass: string, newPass: string) => Promise<void>;
+  updateProfile: (updates: Partial<Pick<UserProfile, 'displayName' | 'photoURL'>>) => Promise<void>;
+  changeEmail: (newEmail: string) => Promise<void>;
+  deleteAccount: (currentPass?: string) => Promise<void>;
+  isLocked: boolean;
+  lockNow: () => void;
+  unlock: (secret: string) => Promise<void>;
+  setLockPin: (pin: string | null) => Promise<void>;
+  guestSessions: SessionSummary[]; // Left behind by a guest who has just signed in
+  resolveGuestSessions: (moveIds: string[]) => Promise<number>;
+  unlockEmail: string | null; // Encrypted profile waiting for its passcode after a reload
 }
 
 const AuthContext = createContext<AuthContextType>({} as AuthContextType);
 
+const GUEST_USER_ID = 'guest_user'; // Shared by everyone who continues as a guest on this device
+const LOCKED_UID_KEY = 'borai_locked_uid'; // Keeps the lock screen up across reloads
+const IDLE_CHECK_MS = 15_000;
+const IDLE_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
 const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<UserProfile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [showLoginModal, setShowLoginModal] = useState(false);
   const [authError, setAuthError] = useState<string | null>(null);
+  const [unlockEmail, setUnlockEmail] = useState<string | null>(null);
+  const [guestSessions, setGuestSessions] = useState<SessionSummary[]>([]);
+  const [isLocked, setIsLocked] = useState(false);
+  const [isSigningOut, setIsSigningOut] = useState(false);
+  const [guestTargetId, setGuestTargetId] = useState<string | null>(null);
 
   // Initialize DB and load session
   useEffect(() => {
@@ -262,8 +2961,13 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
         const storedUid = localStorage.getItem('borai_uid');
         if (storedUid) {
           const u = await db.getUser(storedUid);
-          if (u) {
+          if (u?.encryption || u?.preferences?.requireSignIn) {
+            // The key is never persisted, so encrypted profiles must re-enter their passcode
+            if (u.provider === 'local') setUnlockEmail(u.email);
+            setShowLoginModal(true);
+          } else if (u) {
             setUser(u);
+            setIsLocked(localStorage.getItem(LOCKED_UID_KEY) === u.uid && canLockProfile(u));
           } else {
             localStorage.removeItem('borai_uid'); // Invalid ID
           }
@@ -280,44 +2984,86 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
   const login = async (email: string, pass: string) => {
     setAuthError(null);
     try {
-      const u = await db.getUserByEmail(email);
-      // Simple hash check (In a real app, use bcrypt on server. Here we just simple compare for local privacy)
-      // We'll base64 encode the password just to obscure it slightly in DB, but this is NOT secure for real threats, only local privacy.
-      const passHash = btoa(pass); 
-      
-      if (!u || u.passwordHash !== passHash) {
+      const found = await db.getUserByEmail(email);
+      if (!found) {
+        // Same work as a real check, so response time doesn't reveal which emails exist
+        await hashPassword(pass, createPasswordParams());
         throw new Error("Invalid email or password");
       }
-      
-      setUser(u);
-      localStorage.setItem('borai_uid', u.uid);
+
+      const lockedUntil = found.failedLogins?.lockedUntil;
+      if (lockedUntil && lockedUntil > Date.now()) {
+        throw new Error(`Too many failed attempts. Try again in ${Math.ceil((lockedUntil - Date.now()) / 1000)} seconds.`);
+      }
+
+      if (!(await verifyPassword(found, pass))) {
+        const failedLogins = recordFailedLogin(found.failedLogins);
+        await db.updateUser({ ...found, failedLogins });
+        throw new Error(failedLogins.lockedUntil
+          ? `Too many failed attempts. Try again in ${Math.ceil((failedLogins.lockedUntil - Date.now()) / 1000)} seconds.`
+          : "Invalid email or password");
+      }
+
+      let u: UserProfile = { ...found, failedLogins: undefined };
+      if (!u.passwordParams) {
+        // Legacy btoa record: replace it now that we know the passcode
+        const passwordParams = createPasswordParams();
+        u = { ...u, passwordParams, passwordHash: await hashPassword(pass, passwordParams) };
+      }
+      if (u.passwordParams !== found.passwordParams || found.failedLogins) await db.updateUser(u);
+
+      const unlocked = await unlockEncryption(u, pass);
+      setUser(unlocked);
+      setUnlockEmail(null);
+      localStorage.setItem('borai_uid', unlocked.uid);
       setShowLoginModal(false);
+      offerGuestSessions(unlocked.uid);
     } catch (e: any) {
       setAuthError(e.message);
       throw e;
     }
   };
 
+  // Derives the profile's keys and hands them to the DB. Local accounts created before
+  // encryption existed get their history encrypted here, on their first sign-in.
+  const unlockEncryption = async (u: UserProfile, pass: string): Promise<UserProfile> => {
+    if (u.provider !== 'local' || !u.passwordHash) return u;
+    if (u.encryption) {
+      db.unlock(u.uid, await deriveEncryptionKeys(pass, u.encryption));
+      return u;
+    }
+    const encryption = createEncryptionParams();
+    const updated: UserProfile = { ...u, encryption };
+    await db.sealUserData(updated, await deriveEncryptionKeys(pass, encryption));
+    return updated;
+  };
+
   const register = async (email: string, pass: string, name: string) => {
     setAuthError(null);
     try {
       const existing = await db.getUserByEmail(email);
       if (existing) throw new Error("Email already registered on this device");
 
+      const encryption = createEncryptionParams();
+      const passwordParams = createPasswordParams();
       const newUser: UserProfile = {
         uid: 'user_' + Date.now() + Math.random().toString(36).substr(2, 9),
         email,
         displayName: name,
-        passwordHash: btoa(pass),
+        passwordHash: await hashPassword(pass, passwordParams),
+        passwordParams,
         photoURL: `https://api.dicebear.com/7.x/initials/svg?seed=${name}`,
         provider: 'local',
+        encryption,
         createdAt: Date.now()
       };
 
       await db.createUser(newUser);
+      db.unlock(newUser.uid, await deriveEncryptionKeys(pass, encryption));
       setUser(newUser);
       localStorage.setItem('borai_uid', newUser.uid);
       setShowLoginModal(false);
+      offerGuestSessions(newUser.uid);
     } catch (e: any) {
       setAuthError(e.message);
       throw e;
@@ -325,7 +3071,7 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
   };
 
   const loginAsGuest = async () => {
-    const guestId = 'guest_user';
+    const guestId = GUEST_USER_ID;
     let guest = await db.getUser(guestId);
     if (!guest) {
         guest = {
@@ -343,48 +3089,224 @@ const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) =>
     setShowLoginModal(false);
   };
 
-  // Mocks social login for local-only functionality
-  const socialLoginMock = async (provider: 'google' | 'microsoft') => {
+  const socialLogin = async (providerId: SocialProviderId) => {
     setAuthError(null);
-    // Simulate network delay
-    await new Promise(r => setTimeout(r, 800));
+    try {
+      const provider = IDENTITY_PROVIDERS.find(p => p.id === providerId);
+      if (!provider) throw new Error("This sign-in option isn't configured");
+      const claims = await provider.signIn();
+
+      let u = await db.getUser(claims.uid);
+      if (!u) {
+        const owner = await db.getUserByEmail(claims.email);
+        if (owner) throw new Error(`${claims.email} already belongs to another profile on this device`);
+        u = {
+          uid: claims.uid,
+          email: claims.email,
+          displayName: claims.displayName,
+          photoURL: claims.photoURL,
+          provider: providerId,
+          createdAt: Date.now()
+        };
+        await db.createUser(u);
+      }
 
-    const name = provider === 'google' ? 'Google User' : 'Microsoft User';
-    const email = provider === 'google' ? 'user@gmail.com' : 'user@outlook.com';
-    
-    // Check if we have a "social" user locally
-    const uid = `local_${provider}_user`;
-    let u = await db.getUser(uid);
-
-    if (!u) {
-       u = {
-         uid,
-         email,
-         displayName: name,
-         photoURL: `https://api.dicebear.com/7.x/avataaars/svg?seed=${provider}`,
-         provider,
-         createdAt: Date.now()
-       };
-       await db.createUser(u);
-    }
-
-    setUser(u);
-    localStorage.setItem('borai_uid', u.uid);
-    setShowLoginModal(false);
+      setUser(u);
+      localStorage.setItem('borai_uid', u.uid);
+      setShowLoginModal(false);
+      offerGuestSessions(u.uid);
+    } catch (e: any) {
+      setAuthError(e.message);
+      throw e;
+    }
+  };
+
+  // After signing in to a real profile, offers to carry over anything the guest left behind
+  const offerGuestSessions = async (targetUid: string) => {
+    if (targetUid === GUEST_USER_ID) return;
+    try {
+      const sessions = await db.getSessions(GUEST_USER_ID);
+      const worthKeeping = sessions
+        .map(s => summarizeSession(s))
+        .filter(s => s.messageCount > 0)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+      if (worthKeeping.length > 0) {
+        setGuestTargetId(targetUid);
+        setGuestSessions(worthKeeping);
+      } else if (await db.getUser(GUEST_USER_ID)) {
+        await db.deleteUser(GUEST_USER_ID);
+      }
+    } catch (e) {
+      console.error("Failed to check guest sessions", e);
+    }
+  };
+
+  // Moves the chosen guest sessions to the signed-in profile, then wipes the guest
+  const resolveGuestSessions = async (moveIds: string[]) => {
+    const moved = guestTargetId ? await db.moveSessions(GUEST_USER_ID, guestTargetId, moveIds) : 0;
+    await db.deleteUser(GUEST_USER_ID);
+    setGuestSessions([]);
+    setGuestTargetId(null);
+    return moved;
+  };
+
+  const lockNow = () => {
+    if (!user || !canLockProfile(user)) return;
+    setIsLocked(true);
+    localStorage.setItem(LOCKED_UID_KEY, user.uid);
+  };
+
+  const unlock = async (secret: string) => {
+    if (!user) return;
+    const lockedUntil = user.failedLogins?.lockedUntil;
+    if (lockedUntil && lockedUntil > Date.now()) {
+      throw new Error(`Too many failed attempts. Try again in ${Math.ceil((lockedUntil - Date.now()) / 1000)} seconds.`);
+    }
+    if (!(await verifyUnlockSecret(user, secret))) {
+      const failedLogins = recordFailedLogin(user.failedLogins);
+      const updated = { ...user, failedLogins };
+      await db.updateUser(updated);
+      setUser(updated);
+      throw new Error(failedLogins.lockedUntil
+        ? `Too many failed attempts. Try again in ${Math.ceil((failedLogins.lockedUntil - Date.now()) / 1000)} seconds.`
+        : user.lockPin ? "Incorrect PIN" : "Incorrect passcode");
+    }
+    if (user.failedLogins) {
+      const updated = { ...user, failedLogins: undefined };
+      await db.updateUser(updated);
+      setUser(updated);
+    }
+    setIsLocked(false);
+    localStorage.removeItem(LOCKED_UID_KEY);
+  };
+
+  const setLockPin = async (pin: string | null) => {
+    if (!user) return;
+    let lockPin: UserProfile['lockPin'];
+    if (pin) {
+      const params = createPasswordParams();
+      lockPin = { hash: await hashPassword(pin, params), params };
+    }
+    const updated: UserProfile = { ...user, lockPin };
+    // Nothing could unlock a profile without a PIN or passcode, so drop the timeout too
+    if (!canLockProfile(updated)) updated.preferences = { ...updated.preferences, idleLockMinutes: undefined };
+    await db.updateUser(updated);
+    setUser(updated);
+  };
+
+  // Locks after the configured idle time. Activity is only timestamped here; the
+  // interval does the comparison so busy input doesn't reset timers on every event.
+  useEffect(() => {
+    const minutes = user?.preferences?.idleLockMinutes;
+    if (!user || !minutes || isLocked || !canLockProfile(user)) return;
+    let lastActivity = Date.now();
+    const markActive = () => { lastActivity = Date.now(); };
+    IDLE_EVENTS.forEach(e => window.addEventListener(e, markActive, { passive: true }));
+    const interval = setInterval(() => {
+      if (Date.now() - lastActivity >= minutes * 60_000) lockNow();
+    }, IDLE_CHECK_MS);
+    return () => {
+      IDLE_EVENTS.forEach(e => window.removeEventListener(e, markActive));
+      clearInterval(interval);
+    };
+  }, [user, isLocked]);
+
+  const updatePreferences = async (updates: Partial<UserPreferences>) => {
+    if (!user) return;
+    const updated: UserProfile = { ...user, preferences: { ...user.preferences, ...updates } };
+    await db.updateUser(updated);
+    setUser(updated);
+  };
+
+  const changePassword = async (currentPass: string, newPass: string) => {
+    if (!user || user.provider !== 'local' || !user.passwordHash) throw new Error("This profile has no passcode");
+    if (!(await verifyPassword(user, currentPass))) throw new Error("Current passcode is incorrect");
+
+    const encryption = createEncryptionParams();
+    const passwordParams = createPasswordParams();
+    const updated: UserProfile = { ...user, passwordHash: await hashPassword(newPass, passwordParams), passwordParams, encryption };
+    // Writes the new params together with the re-encrypted sessions
+    await db.rekeyUserData(updated, await deriveEncryptionKeys(newPass, encryption));
+    setUser(updated);
+  };
+
+  const updateProfile = async (updates: Partial<Pick<UserProfile, 'displayName' | 'photoURL'>>) => {
+    if (!user) return;
+    const updated: UserProfile = { ...user, ...updates };
+    await db.updateUser(updated);
+    setUser(updated);
+  };
+
+  const changeEmail = async (newEmail: string) => {
+    if (!user) return;
+    const email = newEmail.trim();
+    if (!email) throw new Error("Email can't be empty");
+    if (email === user.email) return;
+
+    const inUse = "That email is already used by another profile on this device";
+    if (await db.getUserByEmail(email)) throw new Error(inUse);
+    const updated: UserProfile = { ...user, email };
+    try {
+      await db.updateUser(updated);
+    } catch (e) {
+      // Another tab may have claimed it since the check; the unique index has the final say
+      if (e instanceof DOMException && e.name === 'ConstraintError') throw new Error(inUse);
+      throw e;
+    }
+    setUser(updated);
+  };
+
+  const deleteAccount = async (currentPass?: string) => {
+    if (!user) return;
+    if (user.passwordHash && !(await verifyPassword(user, currentPass || ''))) {
+      throw new Error("Current passcode is incorrect");
+    }
+    await db.deleteUser(user.uid); // Signs out the other tabs itself
+    await logout(false);
   };
 
-  const logout = () => {
+  const logout = async (broadcast = true) => {
+    if (user) {
+      setIsSigningOut(true); // Stops a running answer before the key goes away
+      try {
+        await db.lock(user.uid);
+      } finally {
+        setIsSigningOut(false);
+      }
+      if (broadcast) syncBus.post({ type: 'logout', userId: user.uid });
+    }
+    clearAttachmentUrlCache();
+    setGuestSessions([]);
+    setIsLocked(false);
+    localStorage.removeItem(LOCKED_UID_KEY);
     setUser(null);
     localStorage.removeItem('borai_uid');
     setShowLoginModal(true);
   };
 
+  // Signing out in one tab signs the same profile out everywhere
+  useEffect(() => {
+    if (!user) return;
+    return syncBus.subscribe(msg => {
+      if (msg.userId !== user.uid) return;
+      if (msg.type === 'logout') logout(false);
+      if (msg.type === 'key-changed') {
+        // Nothing may be written with the old key; signing in again derives the new one
+        db.forgetKey(user.uid);
+        logout(false);
+      }
+    });
+  }, [user]);
+
   return (
     <AuthContext.Provider value={{ 
       user, isLoading, 
-      login, register, loginAsGuest, socialLoginMock, logout, 
+      login, register, loginAsGuest, socialLogin, logout, isSigningOut,
       showLoginModal, setShowLoginModal, 
-      authError, setAuthError 
+      authError, setAuthError,
+      updatePreferences, changePassword, updateProfile, changeEmail, deleteAccount, unlockEmail,
+      isLocked, lockNow, unlock, setLockPin,
+      guestSessions, resolveGuestSessions
     }}>
       {children}
     </AuthContext.Provider>
@@ -395,8 +3317,14 @@ const useAuth = () => useContext(AuthContext);
 
 // --- Components ---
 
+const SOCIAL_BUTTON_CLASSES: Record<SocialProviderId, string> = {
+  google: "w-full flex items-center justify-center gap-3 bg-white text-slate-900 font-medium py-2.5 rounded-xl hover:bg-slate-100 transition-colors",
+  microsoft: "w-full flex items-center justify-center gap-3 bg-[#2F2F2F] text-white font-medium py-2.5 rounded-xl border border-slate-700 hover:bg-[#3F3F3F] transition-colors",
+  oidc: "w-full flex items-center justify-center gap-3 bg-slate-800 text-white font-medium py-2.5 rounded-xl border border-slate-700 hover:bg-slate-700 transition-colors"
+};
+
 const SignInDialog: React.FC = () => {
-  const { showLoginModal, setShowLoginModal, login, register, loginAsGuest, socialLoginMock, authError, setAuthError } = useAuth();
+  const { showLoginModal, setShowLoginModal, login, register, loginAsGuest, socialLogin, authError, setAuthError, unlockEmail } = useAuth();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
@@ -406,12 +3334,12 @@ const SignInDialog: React.FC = () => {
   useEffect(() => {
     if (showLoginModal) {
       setAuthError(null);
-      setEmail('');
+      setEmail(unlockEmail || '');
       setPassword('');
       setName('');
       setIsRegistering(false);
     }
-  }, [showLoginModal]);
+  }, [showLoginModal, unlockEmail]);
 
   if (!showLoginModal) return null;
 
@@ -454,7 +3382,11 @@ const SignInDialog: React.FC = () => {
             {isRegistering ? "Create Profile" : "Welcome Back"}
           </h2>
           <p className="text-slate-400 text-sm">
-            {isRegistering ? "Your data is saved securely on this device." : "Sign in to access your local history."}
+            {isRegistering
+              ? "Your conversations are encrypted on this device with your passcode."
+              : unlockEmail
+                ? "Enter your passcode to unlock your encrypted history."
+                : "Sign in to access your local history."}
           </p>
         </div>
 
@@ -464,98 +3396,1020 @@ const SignInDialog: React.FC = () => {
           </div>
         )}
 
-        <div className="space-y-3 mb-6">
-          <button 
-            onClick={() => socialLoginMock('google')}
-            className="w-full flex items-center justify-center gap-3 bg-white text-slate-900 font-medium py-2.5 rounded-xl hover:bg-slate-100 transition-colors"
-          >
-            <svg className="w-5 h-5" viewBox="0 0 24 24">
-              <path d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z" fill="#4285F4" />
-              <path d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z" fill="#34A853" />
-              <path d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z" fill="#FBBC05" />
-              <path d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z" fill="#EA4335" />
-            </svg>
-            Continue with Google
-          </button>
+        {IDENTITY_PROVIDERS.length > 0 && (
+          <>
+            <div className="space-y-3 mb-6">
+              {IDENTITY_PROVIDERS.map(provider => (
+                <button
+                  key={provider.id}
+                  onClick={() => socialLogin(provider.id).catch(() => { /* Error handled in context */ })}
+                  className={SOCIAL_BUTTON_CLASSES[provider.id]}
+                >
+                  {provider.id === 'google' ? (
+                    <svg className="w-5 h-5" viewBox="0 0 24 24">
+                      <path d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z" fill="#4285F4" />
+                      <path d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z" fill="#34A853" />
+                      <path d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z" fill="#FBBC05" />
+                      <path d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z" fill="#EA4335" />
+                    </svg>
+                  ) : provider.id === 'microsoft' ? (
+                    <svg className="w-5 h-5" viewBox="0 0 23 23">
+                      <path fill="#F25022" d="M1 1h10v10H1z"/>
+                      <path fill="#00A4EF" d="M1 12h10v10H1z"/>
+                      <path fill="#7FBA00" d="M12 1h10v10H12z"/>
+                      <path fill="#FFB900" d="M12 12h10v10H12z"/>
+                    </svg>
+                  ) : (
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" /></svg>
+                  )}
+                  Continue with {provider.label}
+                  {provider.isMock && (
+                    <span className="text-[9px] font-semibold uppercase tracking-wider opacity-60 border border-current rounded px-1">Dev</span>
+                  )}
+                </button>
+              ))}
+            </div>
 
-          <button 
-            onClick={() => socialLoginMock('microsoft')}
-            className="w-full flex items-center justify-center gap-3 bg-[#2F2F2F] text-white font-medium py-2.5 rounded-xl border border-slate-700 hover:bg-[#3F3F3F] transition-colors"
-          >
-            <svg className="w-5 h-5" viewBox="0 0 23 23">
-              <path fill="#F25022" d="M1 1h10v10H1z"/>
-              <path fill="#00A4EF" d="M1 12h10v10H1z"/>
-              <path fill="#7FBA00" d="M12 1h10v10H12z"/>
-              <path fill="#FFB900" d="M12 12h10v10H12z"/>
-            </svg>
-            Continue with Microsoft
-          </button>
-        </div>
+            <div className="flex items-center gap-4 mb-6">
+              <div className="h-px bg-slate-800 flex-1"></div>
+              <span className="text-xs text-slate-500 font-medium">OR USE PROFILE</span>
+              <div className="h-px bg-slate-800 flex-1"></div>
+            </div>
+          </>
+        )}
 
-        <div className="flex items-center gap-4 mb-6">
-          <div className="h-px bg-slate-800 flex-1"></div>
-          <span className="text-xs text-slate-500 font-medium">OR USE PROFILE</span>
-          <div className="h-px bg-slate-800 flex-1"></div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {isRegistering && (
+            <div className="animate-fade-in-up">
+              <label className="block text-xs font-medium text-slate-400 mb-1.5 ml-1">Profile Name</label>
+              <input 
+                type="text" 
+                required={isRegistering}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full bg-slate-950 border border-slate-700 rounded-lg px-4 py-2.5 text-sm text-white focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                placeholder="John Doe"
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1.5 ml-1">Email / ID</label>
+            <input 
+              type="text" 
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg px-4 py-2.5 text-sm text-white focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              placeholder="name@example.com"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1.5 ml-1">Passcode</label>
+            <input 
+              type="password" 
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg px-4 py-2.5 text-sm text-white focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              placeholder="••••••••"
+            />
+          </div>
+          <button 
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-medium py-2.5 rounded-xl transition-all shadow-lg shadow-indigo-900/20 flex justify-center items-center"
+          >
+            {isSubmitting ? (
+              <svg className="animate-spin h-5 w-5 text-white" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+              </svg>
+            ) : (
+              isRegistering ? "Create Profile" : "Sign In"
+            )}
+          </button>
+        </form>
+        
+        <div className="mt-4 text-center">
+          <button 
+            onClick={() => setIsRegistering(!isRegistering)}
+            className="text-sm text-indigo-400 hover:text-indigo-300 transition-colors"
+          >
+            {isRegistering ? "Have a profile? Sign in" : "New user? Create profile"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Covers the app after inactivity. State underneath stays mounted, so nothing is lost.
+const LockScreen: React.FC = () => {
+  const { user, isLocked, unlock, logout } = useAuth();
+  const [secret, setSecret] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setSecret('');
+    setError(null);
+  }, [isLocked]);
+
+  if (!isLocked || !user) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!secret) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await unlock(secret);
+    } catch (err: any) {
+      setError(err.message);
+      setSecret('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center p-4 bg-slate-950/95 backdrop-blur-xl animation-fade-in">
+      <form onSubmit={handleSubmit} className="w-full max-w-xs text-center">
+        <div className="w-20 h-20 mx-auto mb-4 rounded-full bg-indigo-500 flex items-center justify-center overflow-hidden ring-4 ring-indigo-500/30">
+          {user.photoURL ? (
+            <img src={user.photoURL} alt={user.displayName} className="w-full h-full object-cover" />
+          ) : (
+            <span className="text-white text-2xl font-bold">{user.displayName.charAt(0)}</span>
+          )}
+        </div>
+        <h2 className="text-xl font-bold text-white mb-1 brand-font">{user.displayName}</h2>
+        <p className="text-slate-400 text-sm mb-5">Locked. Enter your {user.lockPin ? 'PIN' : 'passcode'} to continue.</p>
+
+        {error && (
+          <div className="mb-4 p-2.5 bg-red-500/10 border border-red-500/50 rounded-lg text-red-200 text-sm">{error}</div>
+        )}
+
+        <input
+          type="password"
+          inputMode={user.lockPin ? 'numeric' : undefined}
+          autoFocus
+          value={secret}
+          onChange={(e) => setSecret(e.target.value)}
+          placeholder={user.lockPin ? 'PIN' : 'Passcode'}
+          className="w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-2.5 text-sm text-white text-center tracking-widest focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all mb-3"
+        />
+        <button
+          type="submit"
+          disabled={isSubmitting || !secret}
+          className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-medium py-2.5 rounded-xl transition-all disabled:opacity-50"
+        >
+          {isSubmitting ? 'Checking...' : 'Unlock'}
+        </button>
+        <button
+          type="button"
+          onClick={() => logout()}
+          className="mt-4 text-xs text-slate-500 hover:text-red-400 transition-colors"
+        >
+          Sign out instead
+        </button>
+      </form>
+    </div>
+  );
+};
+
+// Shown when the database cannot be opened or upgraded
+const DatabaseRecoveryDialog: React.FC = () => {
+  const [status, setStatus] = useState<DBStatus>(db.getStatus());
+  const [isWorking, setIsWorking] = useState(false);
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  useEffect(() => db.subscribe(setStatus), []);
+
+  if (status.state === 'opening' || status.state === 'ready') return null;
+
+  const handleRetry = async () => {
+    setIsWorking(true);
+    try {
+      await db.init();
+      window.location.reload();
+    } catch (e) {
+      console.error("Database retry failed", e);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    setIsWorking(true);
+    try {
+      const raw = await db.dumpRawData();
+      downloadFile(`borai-raw-backup-${Date.now()}.json`, JSON.stringify(raw), 'application/json');
+    } catch (e) {
+      console.error("Raw backup failed", e);
+      alert("Could not read the existing database.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsWorking(true);
+    try {
+      await db.resetDatabase();
+      window.location.reload();
+    } catch (e) {
+      console.error("Database reset failed", e);
+      setIsWorking(false);
+    }
+  };
+
+  let title = 'Storage Unavailable';
+  let description = '';
+  switch (status.state) {
+    case 'blocked':
+      title = 'Upgrade Waiting';
+      description = 'BorAI is open in another tab with an older version. Close the other tabs to finish updating your local storage.';
+      break;
+    case 'outdated':
+      title = 'BorAI Was Updated';
+      description = 'Another tab upgraded your local storage. Reload this tab to continue.';
+      break;
+    case 'failed':
+      description = `Your local storage could not be opened or upgraded (${status.error}). Your data has not been changed. You can retry, download a raw backup, or reset storage.`;
+      break;
+  }
+
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center p-4 bg-black/70 backdrop-blur-md animation-fade-in">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl max-w-md w-full p-6 shadow-2xl relative">
+        <h3 className="text-lg font-bold text-white mb-2 brand-font">{title}</h3>
+        <p className="text-slate-400 mb-6 text-sm">{description}</p>
+
+        {status.state === 'failed' && confirmReset && (
+          <div className="mb-4 p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-red-200 text-sm">
+            Resetting deletes all profiles and conversations on this device. Download a raw backup first if you need it.
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-3 justify-end">
+          {status.state === 'failed' && (
+            <>
+              <button
+                onClick={() => confirmReset ? handleReset() : setConfirmReset(true)}
+                disabled={isWorking}
+                className="px-4 py-2 rounded-lg bg-red-500/10 text-red-400 hover:bg-red-500/20 border border-red-500/50 transition-colors text-sm font-medium disabled:opacity-50"
+              >
+                {confirmReset ? 'Confirm Reset' : 'Reset Storage'}
+              </button>
+              <button
+                onClick={handleDownload}
+                disabled={isWorking}
+                className="px-4 py-2 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800 transition-colors text-sm font-medium disabled:opacity-50"
+              >
+                Download Raw Backup
+              </button>
+              <button
+                onClick={handleRetry}
+                disabled={isWorking}
+                className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white transition-colors text-sm font-medium disabled:opacity-50"
+              >
+                Retry
+              </button>
+            </>
+          )}
+          {status.state === 'outdated' && (
+            <button
+              onClick={() => window.location.reload()}
+              className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white transition-colors text-sm font-medium"
+            >
+              Reload
+            </button>
+          )}
+          {status.state === 'blocked' && (
+            <span className="text-xs text-slate-500">Waiting for other tabs to close...</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const BackupDialog: React.FC<{ isOpen: boolean; onClose: () => void; onImported: () => void }> = ({ isOpen, onClose, onImported }) => {
+  const { user } = useAuth();
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setArchive(null);
+      setMode('merge');
+      setError(null);
+      setSummary(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen || !user) return null;
+
+  const handleExport = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const data = await db.exportUserData(user.uid);
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFile(`borai-backup-${date}.json`, JSON.stringify(data), 'application/json');
+    } catch (e: any) {
+      console.error("Export failed", e);
+      setError(e.message || "Export failed.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileRef.current) fileRef.current.value = '';
+    if (!file) return;
+    setError(null);
+    setSummary(null);
+    try {
+      setArchive(parseBackupArchive(await file.text()));
+    } catch (err: any) {
+      setArchive(null);
+      setError(err.message);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!archive) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const result = await db.importUserData(user.uid, archive, mode);
+      setSummary(result);
+      setArchive(null);
+      onImported();
+    } catch (e: any) {
+      console.error("Import failed", e);
+      setError(e.message || "Import failed.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animation-fade-in" onClick={onClose}>
+      <div className="bg-slate-900 border border-slate-700 rounded-xl max-w-md w-full p-6 shadow-2xl relative" onClick={(e) => e.stopPropagation()}>
+        <h3 className="text-lg font-bold text-white mb-2 brand-font">Backup &amp; Restore</h3>
+        <p className="text-slate-400 mb-5 text-sm">Export your profile, conversations and images to a single file, or restore them from a previous export.</p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-red-200 text-sm">{error}</div>
+        )}
+        {summary && (
+          <div className="mb-4 p-3 bg-emerald-500/10 border border-emerald-500/50 rounded-lg text-emerald-200 text-sm">
+            Imported {summary.imported} conversation{summary.imported === 1 ? '' : 's'}
+            {summary.renamed > 0 && ` (${summary.renamed} renamed to avoid conflicts)`}
+            {summary.skipped > 0 && `, skipped ${summary.skipped} already present`}.
+          </div>
+        )}
+
+        <button
+          onClick={handleExport}
+          disabled={isWorking}
+          className="w-full mb-3 py-2.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          Export my data
+        </button>
+
+        <input type="file" ref={fileRef} accept="application/json,.json" onChange={handleFile} className="hidden" />
+        <button
+          onClick={() => fileRef.current?.click()}
+          disabled={isWorking}
+          className="w-full py-2.5 rounded-lg border border-slate-700 hover:bg-slate-800 text-slate-300 hover:text-white text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          Choose backup file...
+        </button>
+
+        {archive && (
+          <div className="mt-4 p-3 rounded-lg bg-slate-950 border border-slate-800 animate-fade-in-up">
+            <p className="text-sm text-slate-300 mb-3">
+              Backup of <span className="text-white font-medium">{archive.profile.displayName}</span> from {new Date(archive.exportedAt).toLocaleDateString()}: {archive.sessions.length} conversations, {archive.attachments.length} images.
+            </p>
+            <div className="flex gap-2 mb-3">
+              {(['merge', 'replace'] as ImportMode[]).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`flex-1 py-1.5 rounded-lg text-xs font-medium border transition-colors ${mode === m ? 'bg-slate-800 border-slate-600 text-white' : 'border-slate-800 text-slate-400 hover:text-white'}`}
+                >
+                  {m === 'merge' ? 'Merge with existing' : 'Replace existing'}
+                </button>
+              ))}
+            </div>
+            {mode === 'replace' && (
+              <p className="text-xs text-red-300 mb-3">All conversations currently in this profile will be deleted first.</p>
+            )}
+            <button
+              onClick={handleImport}
+              disabled={isWorking}
+              className="w-full py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-white text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              {isWorking ? 'Importing...' : 'Import'}
+            </button>
+          </div>
+        )}
+
+        <div className="flex justify-end mt-5">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800 transition-colors text-sm font-medium">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const StoragePanel: React.FC<{ isOpen: boolean; onClose: () => void; onChanged: () => void; currentId: string }> = ({ isOpen, onClose, onChanged, currentId }) => {
+  const { user, updatePreferences } = useAuth();
+  const [estimate, setEstimate] = useState<{ usage: number; quota: number } | null>(null);
+  const [usage, setUsage] = useState<{ sessions: SessionUsage[]; attachments: AttachmentUsage[] } | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [olderThanDays, setOlderThanDays] = useState(30);
+  const [retentionDays, setRetentionDays] = useState(90);
+  const [tab, setTab] = useState<'sessions' | 'images'>('sessions');
+  const [isWorking, setIsWorking] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const refresh = async () => {
+    if (!user) return;
+    try {
+      setUsage(await db.getStorageUsage(user.uid));
+      if (navigator.storage?.estimate) {
+        const e = await navigator.storage.estimate();
+        setEstimate({ usage: e.usage || 0, quota: e.quota || 0 });
+      }
+    } catch (e) {
+      console.error("Failed to read storage usage", e);
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelected(new Set());
+    setNotice(null);
+    setRetentionDays(user?.preferences?.retentionDays || 90);
+    refresh();
+  }, [isOpen]);
+
+  if (!isOpen || !user) return null;
+
+  const retentionEnabled = !!user.preferences?.retentionDays;
+  const sessions = usage?.sessions || [];
+  const attachments = usage?.attachments || [];
+
+  // `action` resolves to the notice shown once it finishes
+  const runBulk = async (action: () => Promise<string>) => {
+    setIsWorking(true);
+    try {
+      const message = await action();
+      setSelected(new Set());
+      setNotice(message);
+      onChanged();
+      await refresh();
+    } catch (e) {
+      console.error("Storage action failed", e);
+      setNotice("Something went wrong. Please try again.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const selectOlderThan = () => {
+    const cutoff = Date.now() - olderThanDays * 24 * 60 * 60 * 1000;
+    setSelected(new Set(sessions.filter(s => !s.pinned && s.updatedAt < cutoff).map(s => s.id)));
+  };
+
+  // Saves the rule (or clears it) and applies it straight away
+  const handleRetentionChange = (days: number | undefined) => runBulk(async () => {
+    await updatePreferences({ retentionDays: days });
+    if (!days) return "Retention disabled.";
+    const removed = await db.applyRetention(user.uid, days, currentId);
+    return `Retention set to ${days} days. ${removed} old conversation${removed === 1 ? '' : 's'} deleted.`;
+  });
+
+  const totalSessionBytes = sessions.reduce((sum, s) => sum + s.bytes, 0);
+  const totalImageBytes = attachments.reduce((sum, a) => sum + a.size, 0);
+  const usagePercent = estimate && estimate.quota > 0 ? Math.min(100, (estimate.usage / estimate.quota) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animation-fade-in" onClick={onClose}>
+      <div className="bg-slate-900 border border-slate-700 rounded-xl max-w-2xl w-full max-h-[85vh] flex flex-col shadow-2xl relative" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 pb-4 border-b border-slate-800">
+          <h3 className="text-lg font-bold text-white mb-3 brand-font">Storage</h3>
+          {estimate && (
+            <div className="mb-3">
+              <div className="flex justify-between text-xs text-slate-400 mb-1">
+                <span>Device usage: {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)}</span>
+                <span>{usagePercent.toFixed(1)}%</span>
+              </div>
+              <div className="h-2 rounded-full bg-slate-800 overflow-hidden">
+                <div className={`h-full ${usagePercent > 85 ? 'bg-red-500' : 'bg-cyan-500'}`} style={{ width: `${usagePercent}%` }} />
+              </div>
+            </div>
+          )}
+          <p className="text-xs text-slate-500">
+            Your profile: {sessions.length} conversations ({formatBytes(totalSessionBytes)}), {attachments.length} images ({formatBytes(totalImageBytes)}).
+          </p>
+
+          <label className="flex flex-wrap items-center gap-2 mt-4 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={retentionEnabled}
+              disabled={isWorking}
+              onChange={(e) => handleRetentionChange(e.target.checked ? retentionDays : undefined)}
+              className="accent-indigo-500"
+            />
+            Automatically delete conversations older than
+            <input
+              type="number"
+              min={1}
+              value={retentionDays}
+              disabled={isWorking}
+              onChange={(e) => setRetentionDays(Math.max(1, parseInt(e.target.value) || 1))}
+              onBlur={() => { if (retentionEnabled && retentionDays !== user.preferences?.retentionDays) handleRetentionChange(retentionDays); }}
+              className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-0.5 text-sm text-white disabled:opacity-60"
+            />
+            days unless pinned
+          </label>
+
+          {notice && <p className="mt-3 text-xs text-emerald-300">{notice}</p>}
+        </div>
+
+        <div className="flex gap-1 px-6 pt-3">
+          {(['sessions', 'images'] as const).map(t => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-medium uppercase tracking-wider transition-colors ${tab === t ? 'bg-slate-800 text-white' : 'text-slate-500 hover:text-white'}`}
+            >
+              {t === 'sessions' ? 'Conversations' : 'Images'}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-3">
+          {tab === 'sessions' && (
+            <>
+              <div className="flex flex-wrap items-center gap-2 mb-3 text-xs text-slate-400">
+                <button onClick={selectOlderThan} className="px-2 py-1 rounded border border-slate-700 hover:bg-slate-800 hover:text-white transition-colors">
+                  Select older than
+                </button>
+                <input
+                  type="number"
+                  min={0}
+                  value={olderThanDays}
+                  onChange={(e) => setOlderThanDays(Math.max(0, parseInt(e.target.value) || 0))}
+                  className="w-14 bg-slate-950 border border-slate-700 rounded px-2 py-0.5 text-white"
+                />
+                days
+                <span className="flex-1" />
+                <button
+                  disabled={isWorking || selected.size === 0}
+                  onClick={() => runBulk(async () => {
+                    await db.stripImages([...selected]);
+                    return `Removed images from ${selected.size} conversation(s).`;
+                  })}
+                  className="px-2 py-1 rounded border border-slate-700 hover:bg-slate-800 hover:text-white transition-colors disabled:opacity-40"
+                >
+                  Delete images only
+                </button>
+                <button
+                  disabled={isWorking || selected.size === 0}
+                  onClick={() => runBulk(async () => {
+                    await db.deleteSessions([...selected].filter(id => id !== currentId));
+                    return selected.has(currentId)
+                      ? `Deleted ${selected.size - 1} conversation(s). The open conversation was kept.`
+                      : `Deleted ${selected.size} conversation(s).`;
+                  })}
+                  className="px-2 py-1 rounded bg-red-500/10 text-red-400 border border-red-500/50 hover:bg-red-500/20 transition-colors disabled:opacity-40"
+                >
+                  Delete selected
+                </button>
+              </div>
+              {[...sessions].sort((a, b) => (b.bytes + b.imageBytes) - (a.bytes + a.imageBytes)).map(s => (
+                <label key={s.id} className="flex items-center gap-3 py-2 border-b border-slate-800/60 text-sm cursor-pointer">
+                  <input type="checkbox" checked={selected.has(s.id)} onChange={() => toggleSelected(s.id)} className="accent-indigo-500" />
+                  <span className="flex-1 min-w-0 truncate text-slate-300">
+                    {s.pinned && <span className="text-amber-400 mr-1" title="Pinned">●</span>}
+                    {s.title}
+                  </span>
+                  <span className="text-[10px] text-slate-500 uppercase tracking-wider w-16 text-right">{formatTimeAgo(s.updatedAt)}</span>
+                  <span className="text-xs text-slate-400 w-20 text-right">{formatBytes(s.bytes)}</span>
+                  <span className="text-xs text-slate-500 w-24 text-right">{s.imageCount > 0 ? `+${formatBytes(s.imageBytes)} img` : '—'}</span>
+                </label>
+              ))}
+            </>
+          )}
+
+          {tab === 'images' && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {attachments.length === 0 && <p className="text-xs text-slate-500 py-6 text-center col-span-full">No stored images.</p>}
+              {attachments.map(a => (
+                <div key={a.hash} className="flex items-center gap-3 p-2 rounded-lg border border-slate-800">
+                  <AttachmentImage attachment={a} alt="Stored image" className="w-12 h-12 rounded object-cover flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-slate-300">{formatBytes(a.size)}</p>
+                    <p className="text-[10px] text-slate-500">Used in {a.sessionIds.length} conversation{a.sessionIds.length === 1 ? '' : 's'}</p>
+                  </div>
+                  <button
+                    disabled={isWorking}
+                    onClick={() => runBulk(async () => {
+                      await db.stripImages(a.sessionIds, a.hash);
+                      return 'Image deleted.';
+                    })}
+                    className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded-lg transition-colors"
+                    title="Delete image everywhere"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end p-4 border-t border-slate-800">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800 transition-colors text-sm font-medium">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ProfileDialog: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
+  const { user, updateProfile, changeEmail, changePassword, deleteAccount, updatePreferences, setLockPin } = useAuth();
+  const [displayName, setDisplayName] = useState('');
+  const [photoURL, setPhotoURL] = useState('');
+  const [email, setEmail] = useState('');
+  const [currentPass, setCurrentPass] = useState('');
+  const [newPass, setNewPass] = useState('');
+  const [confirmPass, setConfirmPass] = useState('');
+  const [pin, setPin] = useState('');
+  const [deletePass, setDeletePass] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen && user) {
+      setDisplayName(user.displayName);
+      setPhotoURL(user.photoURL);
+      setEmail(user.email);
+      setCurrentPass('');
+      setNewPass('');
+      setConfirmPass('');
+      setPin('');
+      setDeletePass('');
+      setConfirmDelete(false);
+      setError(null);
+      setNotice(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen || !user) return null;
+
+  const hasPasscode = !!user.passwordHash;
+
+  const run = async (action: () => Promise<string>) => {
+    setIsWorking(true);
+    setError(null);
+    setNotice(null);
+    try {
+      setNotice(await action());
+    } catch (e: any) {
+      setError(e.message || "Something went wrong.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileRef.current) fileRef.current.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) { setError('Please choose an image file.'); return; }
+    try {
+      setPhotoURL(await createThumbnail(file));
+    } catch {
+      setError('That image could not be read.');
+    }
+  };
+
+  const saveProfile = () => run(async () => {
+    if (!displayName.trim()) throw new Error("Name can't be empty");
+    await updateProfile({ displayName: displayName.trim(), photoURL });
+    return 'Profile updated.';
+  });
+
+  const saveEmail = () => run(async () => {
+    await changeEmail(email);
+    return 'Email updated.';
+  });
+
+  const savePassword = () => run(async () => {
+    if (newPass !== confirmPass) throw new Error("New passcodes don't match");
+    await changePassword(currentPass, newPass);
+    setCurrentPass('');
+    setNewPass('');
+    setConfirmPass('');
+    return 'Passcode changed. Your conversations were re-encrypted with it.';
+  });
+
+  const savePin = () => run(async () => {
+    if (!/^\d{4,8}$/.test(pin)) throw new Error("PIN must be 4 to 8 digits");
+    await setLockPin(pin);
+    setPin('');
+    return 'Lock screen PIN saved.';
+  });
+
+  const removePin = () => run(async () => {
+    await setLockPin(null);
+    return hasPasscode ? 'PIN removed. The lock screen will ask for your passcode.' : 'PIN removed. Auto-lock is off.';
+  });
+
+  const setIdleLock = (minutes: number) => run(async () => {
+    await updatePreferences({ idleLockMinutes: minutes || undefined });
+    return minutes ? `Locks after ${minutes} minutes without activity.` : 'Auto-lock is off.';
+  });
+
+  const setRequireSignIn = (enabled: boolean) => run(async () => {
+    await updatePreferences({ requireSignIn: enabled || undefined });
+    return enabled ? 'You will need to sign in each time BorAI opens.' : 'This device will keep you signed in.';
+  });
+
+  const handleDelete = () => run(async () => {
+    await deleteAccount(deletePass);
+    onClose();
+    return '';
+  });
+
+  const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-600 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all";
+  const sectionClass = "pt-4 mt-4 border-t border-slate-800";
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animation-fade-in" onClick={onClose}>
+      <div className="bg-slate-900 border border-slate-700 rounded-xl max-w-md w-full p-6 shadow-2xl relative max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <h3 className="text-lg font-bold text-white mb-4 brand-font">Profile</h3>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-red-200 text-sm">{error}</div>
+        )}
+        {notice && (
+          <div className="mb-4 p-3 bg-emerald-500/10 border border-emerald-500/50 rounded-lg text-emerald-200 text-sm">{notice}</div>
+        )}
+
+        {/* Name & Photo */}
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="w-16 h-16 rounded-full bg-indigo-500 flex-shrink-0 flex items-center justify-center overflow-hidden ring-2 ring-indigo-500/30 hover:ring-indigo-400 transition-all"
+            title="Change photo"
+          >
+            {photoURL ? (
+              <img src={photoURL} alt={displayName} className="w-full h-full object-cover" />
+            ) : (
+              <span className="text-white text-xl font-bold">{displayName.charAt(0)}</span>
+            )}
+          </button>
+          <input type="file" ref={fileRef} accept="image/*" onChange={handlePhoto} className="hidden" />
+          <div className="flex-1 min-w-0 space-y-2">
+            <input type="text" value={displayName} onChange={(e) => setDisplayName(e.target.value)} placeholder="Display name" className={inputClass} />
+            <div className="flex items-center gap-3">
+              <button onClick={saveProfile} disabled={isWorking} className="px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-medium transition-colors disabled:opacity-50">Save</button>
+              {photoURL && (
+                <button onClick={() => setPhotoURL('')} className="text-xs text-slate-400 hover:text-white transition-colors">Remove photo</button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Email */}
+        <div className={sectionClass}>
+          <label className="block text-xs font-semibold uppercase tracking-wider text-slate-500 mb-2">Email</label>
+          <div className="flex gap-2">
+            <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} />
+            <button
+              onClick={saveEmail}
+              disabled={isWorking || email.trim() === user.email}
+              className="px-3 rounded-lg border border-slate-700 hover:bg-slate-800 text-slate-300 hover:text-white text-xs font-medium transition-colors disabled:opacity-50"
+            >
+              Change
+            </button>
+          </div>
+        </div>
+
+        {/* Passcode */}
+        {hasPasscode && (
+          <div className={sectionClass}>
+            <label className="block text-xs font-semibold uppercase tracking-wider text-slate-500 mb-2">Passcode</label>
+            <div className="space-y-2">
+              <input type="password" value={currentPass} onChange={(e) => setCurrentPass(e.target.value)} placeholder="Current passcode" className={inputClass} />
+              <input type="password" value={newPass} onChange={(e) => setNewPass(e.target.value)} placeholder="New passcode" className={inputClass} />
+              <input type="password" value={confirmPass} onChange={(e) => setConfirmPass(e.target.value)} placeholder="Confirm new passcode" className={inputClass} />
+              <button
+                onClick={savePassword}
+                disabled={isWorking || !currentPass || !newPass}
+                className="w-full py-2 rounded-lg border border-slate-700 hover:bg-slate-800 text-slate-300 hover:text-white text-sm font-medium transition-colors disabled:opacity-50"
+              >
+                {isWorking ? 'Working...' : 'Change passcode'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Security */}
+        <div className={sectionClass}>
+          <label className="block text-xs font-semibold uppercase tracking-wider text-slate-500 mb-2">Lock Screen</label>
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <input
+                type="password"
+                inputMode="numeric"
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                placeholder={user.lockPin ? 'New PIN' : 'Set a PIN (4-8 digits)'}
+                maxLength={8}
+                className={inputClass}
+              />
+              <button
+                onClick={savePin}
+                disabled={isWorking || pin.length < 4}
+                className="px-3 rounded-lg border border-slate-700 hover:bg-slate-800 text-slate-300 hover:text-white text-xs font-medium transition-colors disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+            {user.lockPin && (
+              <button onClick={removePin} disabled={isWorking} className="text-xs text-slate-400 hover:text-white transition-colors">Remove PIN</button>
+            )}
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-sm text-slate-300">Auto-lock after</span>
+              <select
+                value={user.preferences?.idleLockMinutes || 0}
+                onChange={(e) => setIdleLock(Number(e.target.value))}
+                disabled={isWorking || !canLockProfile(user)}
+                className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-sm text-white outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                <option value={0}>Never</option>
+                {[1, 5, 15, 30, 60].map(m => <option key={m} value={m}>{m} min</option>)}
+              </select>
+            </div>
+            {!canLockProfile(user) && (
+              <p className="text-xs text-slate-500">Set a PIN to enable auto-lock.</p>
+            )}
+            {user.uid !== GUEST_USER_ID && (
+              <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!user.preferences?.requireSignIn || !!user.encryption}
+                  disabled={isWorking || !!user.encryption}
+                  onChange={(e) => setRequireSignIn(e.target.checked)}
+                  className="accent-indigo-500"
+                />
+                Require sign-in every time BorAI opens
+              </label>
+            )}
+            {user.encryption && (
+              <p className="text-xs text-slate-500">Always on for encrypted profiles: the key is only kept while the app is open.</p>
+            )}
+          </div>
+        </div>
+
+        {/* Danger Zone */}
+        <div className={sectionClass}>
+          {!confirmDelete ? (
+            <button onClick={() => setConfirmDelete(true)} className="text-sm text-red-400 hover:text-red-300 transition-colors">
+              Delete account...
+            </button>
+          ) : (
+            <div className="p-3 rounded-lg bg-red-500/5 border border-red-500/40 space-y-2">
+              <p className="text-sm text-red-200">This permanently removes your profile, all of your conversations and their images from this device.</p>
+              {hasPasscode && (
+                <input type="password" value={deletePass} onChange={(e) => setDeletePass(e.target.value)} placeholder="Current passcode" className={inputClass} />
+              )}
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setConfirmDelete(false)} className="px-3 py-1.5 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800 transition-colors text-xs font-medium">Cancel</button>
+                <button
+                  onClick={handleDelete}
+                  disabled={isWorking || (hasPasscode && !deletePass)}
+                  className="px-3 py-1.5 rounded-lg bg-red-600 hover:bg-red-500 text-white text-xs font-medium transition-colors disabled:opacity-50"
+                >
+                  Delete everything
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end mt-5">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800 transition-colors text-sm font-medium">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const GuestSessionsDialog: React.FC<{ onResolved: () => void }> = ({ onResolved }) => {
+  const { user, guestSessions, resolveGuestSessions } = useAuth();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelected(new Set(guestSessions.map(s => s.id)));
+    setError(null);
+  }, [guestSessions]);
+
+  if (guestSessions.length === 0 || !user) return null;
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const resolve = async (moveIds: string[]) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const moved = await resolveGuestSessions(moveIds);
+      if (moved > 0) onResolved();
+    } catch (e: any) {
+      console.error("Guest handoff failed", e);
+      setError(e.message || "Could not move the conversations.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const allSelected = selected.size === guestSessions.length;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animation-fade-in">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl max-w-md w-full p-6 shadow-2xl relative">
+        <h3 className="text-lg font-bold text-white mb-2 brand-font">Keep your guest conversations?</h3>
+        <p className="text-slate-400 mb-4 text-sm">
+          You chatted as a guest on this device. Choose which conversations to move into <span className="text-white font-medium">{user.displayName}</span>. Anything not moved is deleted so the next guest can't see it.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-red-200 text-sm">{error}</div>
+        )}
+
+        <button
+          onClick={() => setSelected(allSelected ? new Set() : new Set(guestSessions.map(s => s.id)))}
+          className="text-xs text-slate-400 hover:text-white transition-colors mb-2"
+        >
+          {allSelected ? 'Select none' : 'Select all'}
+        </button>
+        <div className="max-h-64 overflow-y-auto space-y-1 mb-5">
+          {guestSessions.map(s => (
+            <label key={s.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-slate-800/50 cursor-pointer">
+              <input type="checkbox" checked={selected.has(s.id)} onChange={() => toggle(s.id)} className="accent-indigo-500" />
+              <span className="flex-1 min-w-0 text-sm text-slate-200 truncate">{s.title}</span>
+              <span className="text-[10px] text-slate-500 font-medium uppercase tracking-wider flex-shrink-0">{formatTimeAgo(s.updatedAt)}</span>
+            </label>
+          ))}
         </div>
 
-        <form onSubmit={handleSubmit} className="space-y-4">
-          {isRegistering && (
-            <div className="animate-fade-in-up">
-              <label className="block text-xs font-medium text-slate-400 mb-1.5 ml-1">Profile Name</label>
-              <input 
-                type="text" 
-                required={isRegistering}
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-                className="w-full bg-slate-950 border border-slate-700 rounded-lg px-4 py-2.5 text-sm text-white focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
-                placeholder="John Doe"
-              />
-            </div>
-          )}
-          <div>
-            <label className="block text-xs font-medium text-slate-400 mb-1.5 ml-1">Email / ID</label>
-            <input 
-              type="text" 
-              required
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              className="w-full bg-slate-950 border border-slate-700 rounded-lg px-4 py-2.5 text-sm text-white focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
-              placeholder="name@example.com"
-            />
-          </div>
-          <div>
-            <label className="block text-xs font-medium text-slate-400 mb-1.5 ml-1">Passcode</label>
-            <input 
-              type="password" 
-              required
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="w-full bg-slate-950 border border-slate-700 rounded-lg px-4 py-2.5 text-sm text-white focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
-              placeholder="••••••••"
-            />
-          </div>
-          <button 
-            type="submit"
-            disabled={isSubmitting}
-            className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-medium py-2.5 rounded-xl transition-all shadow-lg shadow-indigo-900/20 flex justify-center items-center"
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={() => resolve([])}
+            disabled={isWorking}
+            className="px-4 py-2 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800 transition-colors text-sm font-medium disabled:opacity-50"
           >
-            {isSubmitting ? (
-              <svg className="animate-spin h-5 w-5 text-white" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-              </svg>
-            ) : (
-              isRegistering ? "Create Profile" : "Sign In"
-            )}
+            Discard all
           </button>
-        </form>
-        
-        <div className="mt-4 text-center">
-          <button 
-            onClick={() => setIsRegistering(!isRegistering)}
-            className="text-sm text-indigo-400 hover:text-indigo-300 transition-colors"
+          <button
+            onClick={() => resolve([...selected])}
+            disabled={isWorking || selected.size === 0}
+            className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white transition-colors text-sm font-medium disabled:opacity-50"
           >
-            {isRegistering ? "Have a profile? Sign in" : "New user? Create profile"}
+            {isWorking ? 'Moving...' : `Move ${selected.size} conversation${selected.size === 1 ? '' : 's'}`}
           </button>
         </div>
       </div>
@@ -579,16 +4433,259 @@ const ClearDialog: React.FC<{ isOpen: boolean; onClose: () => void; onConfirm: (
   );
 };
 
+const MODE_VARIABLES = ['${language}', '${date}', '${mode}'];
+
+const createModeDraft = (userId: string): ChatMode => ({
+  id: `mode-${Date.now().toString(36)}${Math.random().toString(36).substr(2, 5)}`,
+  userId,
+  name: '',
+  color: 'amber',
+  icon: 'sparkles',
+  prompt: 'You are BorAI, acting as a ...\nInstructions:\n1. ...\n2. OUTPUT: Answer in ${language}.',
+  tools: {}
+});
+
+// Lists the user's own modes and edits one at a time. Built-in modes are read-only.
+const ModesDialog: React.FC<{ isOpen: boolean; onClose: () => void; modes: ChatMode[]; onChanged: () => void }> = ({ isOpen, onClose, modes, onChanged }) => {
+  const { user } = useAuth();
+  const [draft, setDraft] = useState<ChatMode | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen || !user) return null;
+
+  const updateDraft = (changes: Partial<ChatMode>) => setDraft(prev => prev && { ...prev, ...changes });
+
+  const save = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) { setError("Give the mode a name."); return; }
+    if (!draft.prompt.trim()) { setError("The system prompt can't be empty."); return; }
+    setIsWorking(true);
+    setError(null);
+    try {
+      await db.saveMode({ ...draft, name: draft.name.trim(), placeholder: draft.placeholder?.trim() || undefined, createdAt: draft.createdAt || Date.now() });
+      setDraft(null);
+      onChanged();
+    } catch (e: any) {
+      setError(e.message || "Failed to save the mode.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const remove = async (mode: ChatMode) => {
+    if (!confirm(`Delete the "${mode.name}" mode? Conversations using it switch to the default mode.`)) return;
+    try {
+      await db.deleteMode(mode.id);
+      onChanged();
+    } catch (e: any) {
+      setError(e.message || "Failed to delete the mode.");
+    }
+  };
+
+  const inputClass = "w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-600 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all";
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animation-fade-in" onClick={onClose}>
+      <div className="bg-slate-900 border border-slate-700 rounded-xl max-w-lg w-full p-6 shadow-2xl relative max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <h3 className="text-lg font-bold text-white mb-4 brand-font">{draft ? (modes.some(m => m.id === draft.id) ? 'Edit Mode' : 'New Mode') : 'Modes'}</h3>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-red-200 text-sm">{error}</div>
+        )}
+
+        {draft ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <div className={`w-10 h-10 rounded-full flex-shrink-0 flex items-center justify-center bg-gradient-to-tr ${MODE_THEMES[draft.color].logo}`}>
+                <ModeGlyph icon={draft.icon} className="w-5 h-5 text-white" />
+              </div>
+              <input type="text" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} placeholder="Name, e.g. Code Reviewer" className={inputClass} autoFocus />
+            </div>
+
+            <div className="flex flex-wrap gap-4">
+              <div className="space-y-1">
+                <span className="text-xs text-slate-400">Color</span>
+                <div className="flex gap-1.5">
+                  {(Object.keys(MODE_THEMES) as ModeColor[]).map(color => (
+                    <button
+                      key={color}
+                      onClick={() => updateDraft({ color })}
+                      className={`w-6 h-6 rounded-full bg-gradient-to-tr ${MODE_THEMES[color].logo} ${draft.color === color ? 'ring-2 ring-white' : 'opacity-70 hover:opacity-100'}`}
+                      title={color}
+                    />
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-1">
+                <span className="text-xs text-slate-400">Icon</span>
+                <div className="flex gap-1">
+                  {(Object.keys(MODE_ICON_PATHS) as ModeIcon[]).map(icon => (
+                    <button
+                      key={icon}
+                      onClick={() => updateDraft({ icon })}
+                      className={`p-1 rounded-lg transition-colors ${draft.icon === icon ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-white'}`}
+                      title={icon}
+                    >
+                      <ModeGlyph icon={icon} className="w-4 h-4" />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <label className="block space-y-1">
+              <span className="text-xs text-slate-400">System prompt</span>
+              <textarea value={draft.prompt} onChange={(e) => updateDraft({ prompt: e.target.value })} rows={7} className={`${inputClass} font-mono text-xs resize-y`} />
+              <span className="block text-[11px] text-slate-500">Variables: {MODE_VARIABLES.join(', ')}</span>
+            </label>
+
+            <label className="block space-y-1">
+              <span className="text-xs text-slate-400">Input hint (optional)</span>
+              <input type="text" value={draft.placeholder || ''} onChange={(e) => updateDraft({ placeholder: e.target.value })} placeholder="Paste the code to review..." className={inputClass} />
+            </label>
+
+            <div className="flex flex-wrap gap-4">
+              <label className="block space-y-1">
+                <span className="text-xs text-slate-400">Web search</span>
+                <select
+                  value={draft.tools.webSearch === undefined ? '' : String(draft.tools.webSearch)}
+                  onChange={(e) => updateDraft({ tools: { ...draft.tools, webSearch: e.target.value === '' ? undefined : e.target.value === 'true' } })}
+                  className={inputClass}
+                >
+                  <option value="">My default</option>
+                  <option value="true">On</option>
+                  <option value="false">Off</option>
+                </select>
+              </label>
+              <label className="block space-y-1">
+                <span className="text-xs text-slate-400">Thinking</span>
+                <select
+                  value={draft.tools.thinkingBudget ?? ''}
+                  onChange={(e) => updateDraft({ tools: { ...draft.tools, thinkingBudget: e.target.value === '' ? undefined : Number(e.target.value) } })}
+                  className={inputClass}
+                >
+                  {THINKING_OPTIONS.map(([label, budget]) => (
+                    <option key={label} value={budget ?? ''}>{budget === undefined ? 'My default' : label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block space-y-1">
+                <span className="text-xs text-slate-400">Deep research</span>
+                <select
+                  value={draft.tools.deepResearch ? 'true' : ''}
+                  onChange={(e) => updateDraft({ tools: { ...draft.tools, deepResearch: e.target.value === 'true' || undefined } })}
+                  className={inputClass}
+                  title="Plan sub-questions, search each one, then write a report"
+                >
+                  <option value="">Off</option>
+                  <option value="true">On</option>
+                </select>
+              </label>
+            </div>
+
+            <div className="flex gap-3 justify-end pt-2">
+              <button onClick={() => { setDraft(null); setError(null); }} className="px-4 py-2 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800 transition-colors text-sm font-medium">Cancel</button>
+              <button onClick={save} disabled={isWorking} className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white transition-colors text-sm font-medium disabled:opacity-50">Save Mode</button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {BUILT_IN_MODES.map(mode => (
+              <div key={mode.id} className="flex items-center gap-3 p-2 rounded-lg">
+                <span className={MODE_THEMES[mode.color].accent}><ModeGlyph icon={mode.icon} className="w-5 h-5" /></span>
+                <span className="flex-1 text-sm text-slate-300">{mode.name}</span>
+                <span className="text-[10px] uppercase tracking-widest text-slate-600">Built-in</span>
+              </div>
+            ))}
+            {modes.map(mode => (
+              <div key={mode.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-slate-800/50">
+                <span className={MODE_THEMES[mode.color].accent}><ModeGlyph icon={mode.icon} className="w-5 h-5" /></span>
+                <span className="flex-1 text-sm text-white truncate">{mode.name}</span>
+                <button onClick={() => setDraft(mode)} className="text-xs text-slate-400 hover:text-white transition-colors">Edit</button>
+                <button onClick={() => remove(mode)} className="text-xs text-slate-400 hover:text-red-400 transition-colors">Delete</button>
+              </div>
+            ))}
+            <div className="flex gap-3 justify-end pt-4">
+              <button onClick={onClose} className="px-4 py-2 rounded-lg text-slate-300 hover:text-white hover:bg-slate-800 transition-colors text-sm font-medium">Close</button>
+              <button onClick={() => setDraft(createModeDraft(user.uid))} className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white transition-colors text-sm font-medium">New Mode</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const HighlightedText: React.FC<{ text: string; query: string }> = ({ text, query }) => {
+  const tokens = [...new Set(tokenize(query))];
+  if (tokens.length === 0) return <>{text}</>;
+  const pattern = new RegExp(`(${tokens.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, idx) =>
+        idx % 2 === 1
+          ? <mark key={idx} className="bg-cyan-500/30 text-cyan-100 rounded px-0.5">{part}</mark>
+          : <React.Fragment key={idx}>{part}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+const ModeGlyph: React.FC<{ icon: ModeIcon; className?: string }> = ({ icon, className }) => (
+  <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    {MODE_ICON_PATHS[icon].map(d => <path key={d} strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={d} />)}
+  </svg>
+);
+
 const Sidebar: React.FC<{ 
   isOpen: boolean; 
   onClose: () => void;
-  sessions: ChatSession[];
+  sessions: SessionSummary[];
+  modes: ChatMode[];
+  hasMore: boolean;
+  onLoadMore: () => void;
   currentId: string;
   onSelect: (id: string) => void;
+  onJumpToMessage: (sessionId: string, messageId?: string) => void;
   onNew: () => void;
   onDelete: (id: string, e: React.MouseEvent) => void;
-}> = ({ isOpen, onClose, sessions, currentId, onSelect, onNew, onDelete }) => {
-  const { user, setShowLoginModal, logout } = useAuth();
+  onOpenBackup: () => void;
+  onOpenStorage: () => void;
+  onOpenProfile: () => void;
+  onTogglePin: (id: string) => void;
+}> = ({ isOpen, onClose, sessions, modes, hasMore, onLoadMore, currentId, onSelect, onJumpToMessage, onNew, onDelete, onOpenBackup, onOpenStorage, onOpenProfile, onTogglePin }) => {
+  const { user, setShowLoginModal, logout, lockNow } = useAuth();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Debounced full-text search against the IndexedDB inverted index
+  useEffect(() => {
+    if (!user || !searchQuery.trim()) {
+      setSearchResults([]);
+      setIsSearching(false);
+      return;
+    }
+    setIsSearching(true);
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      db.searchSessions(user.uid, searchQuery)
+        .then(results => { if (!cancelled) setSearchResults(results); })
+        .catch(e => console.error("Search failed", e))
+        .finally(() => { if (!cancelled) setIsSearching(false); });
+    }, 200);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [searchQuery, user]);
+
+  const isSearchActive = searchQuery.trim().length > 0;
 
   return (
     <>
@@ -609,44 +4706,73 @@ const Sidebar: React.FC<{
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>
             New Chat
           </button>
+
+          {/* Search */}
+          <div className="relative mt-3">
+            <svg className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 pointer-events-none" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Escape') setSearchQuery(''); }}
+              placeholder="Search conversations..."
+              className="w-full bg-slate-900 border border-slate-800 rounded-lg pl-9 pr-8 py-2 text-sm text-white placeholder-slate-500 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+            />
+            {isSearchActive && (
+              <button
+                onClick={() => setSearchQuery('')}
+                className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-slate-500 hover:text-white transition-colors"
+                title="Clear search"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+              </button>
+            )}
+          </div>
         </div>
 
+        {/* Search Results */}
+        {isSearchActive && (
+          <div className="flex-1 overflow-y-auto p-3 space-y-2">
+            {!isSearching && searchResults.length === 0 && (
+              <p className="text-xs text-slate-500 text-center py-6">No matches found.</p>
+            )}
+            {searchResults.map((result, idx) => (
+              <button
+                key={`${result.sessionId}-${result.messageId || 'title'}-${idx}`}
+                onClick={() => onJumpToMessage(result.sessionId, result.messageId)}
+                className="w-full text-left p-3 rounded-xl border border-transparent hover:bg-slate-800/50 hover:border-slate-800 transition-all"
+              >
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <h4 className="text-sm font-medium text-slate-200 truncate">
+                    <HighlightedText text={result.sessionTitle} query={searchQuery} />
+                  </h4>
+                  <span className="text-[10px] text-slate-500 font-medium uppercase tracking-wider flex-shrink-0">
+                    {result.field === 'source' ? 'Source' : formatTimeAgo(result.updatedAt)}
+                  </span>
+                </div>
+                {result.field !== 'title' && (
+                  <p className="text-xs text-slate-400 line-clamp-3 break-words">
+                    <HighlightedText text={result.snippet} query={searchQuery} />
+                  </p>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* List */}
-        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        <div
+          className={`flex-1 overflow-y-auto p-3 space-y-2 ${isSearchActive ? 'hidden' : ''}`}
+          onScroll={(e) => {
+            const el = e.currentTarget;
+            if (hasMore && el.scrollTop + el.clientHeight >= el.scrollHeight - 200) onLoadMore();
+          }}
+        >
           {sessions.map(session => {
             const isActive = session.id === currentId;
-            const firstUserMsg = session.messages.find(m => m.role === 'user');
-            const hasImage = firstUserMsg?.images && firstUserMsg.images.length > 0;
-            const previewImage = hasImage ? firstUserMsg!.images![0].previewUri : null;
+            const hasImage = !!(session.thumbnail || session.previewImage);
             
-            let ModeIcon;
-            let modeColor;
-            switch(session.appMode) {
-              case 'tutor': 
-                modeColor = 'text-violet-400';
-                ModeIcon = (
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path d="M12 14l9-5-9-5-9 5 9 5z" />
-                    <path d="M12 14l6.16-3.422a12.083 12.083 0 01.665 6.479A11.952 11.952 0 0012 20.055a11.952 11.952 0 00-6.824-2.998 12.078 12.078 0 01.665-6.479L12 14z" />
-                  </svg>
-                );
-                break;
-              case 'research':
-                modeColor = 'text-emerald-400';
-                ModeIcon = (
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19.428 15.428a2 2 0 00-1.022-.547l-2.384-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z" />
-                  </svg>
-                );
-                break;
-              default:
-                modeColor = 'text-cyan-400';
-                ModeIcon = (
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
-                  </svg>
-                );
-            }
+            const mode = findMode(modes, session.appMode);
 
             return (
               <div 
@@ -656,11 +4782,13 @@ const Sidebar: React.FC<{
               >
                 {/* Visual Preview */}
                 <div className={`w-10 h-10 rounded-lg flex-shrink-0 flex items-center justify-center overflow-hidden border border-slate-700/50 ${hasImage ? 'bg-black' : 'bg-slate-900'}`}>
-                  {hasImage ? (
-                    <img src={previewImage!} alt="Chat Preview" className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" />
+                  {session.thumbnail ? (
+                    <img src={session.thumbnail} alt="Chat Preview" className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" />
+                  ) : session.previewImage ? (
+                    <AttachmentImage attachment={session.previewImage} alt="Chat Preview" className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" />
                   ) : (
-                    <div className={`${modeColor} opacity-80 group-hover:opacity-100 transition-opacity`}>
-                      {ModeIcon}
+                    <div className={`${MODE_THEMES[mode.color].accent} opacity-80 group-hover:opacity-100 transition-opacity`} title={mode.name}>
+                      <ModeGlyph icon={mode.icon} className="w-5 h-5" />
                     </div>
                   )}
                 </div>
@@ -675,38 +4803,102 @@ const Sidebar: React.FC<{
                   </span>
                 </div>
 
-                {/* Delete Button */}
-                <button
-                  onClick={(e) => onDelete(session.id, e)}
-                  className="absolute right-2 opacity-0 group-hover:opacity-100 p-1.5 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-all"
-                  title="Delete Chat"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
-                </button>
+                {session.pinned && (
+                  <svg className="w-3.5 h-3.5 text-amber-400 flex-shrink-0 group-hover:opacity-0 transition-opacity" fill="currentColor" viewBox="0 0 24 24"><path d="M16 3l5 5-3 1-4 4 1 5-2 2-4-4-5 5-1-1 5-5-4-4 2-2 5 1 4-4 1-3z" /></svg>
+                )}
+
+                {/* Row Actions */}
+                <div className="absolute right-2 flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-all">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onTogglePin(session.id); }}
+                    className={`p-1.5 hover:bg-slate-700 rounded-lg transition-all ${session.pinned ? 'text-amber-400' : 'text-slate-400 hover:text-amber-400'}`}
+                    title={session.pinned ? "Unpin Chat" : "Pin Chat (keeps it from automatic cleanup)"}
+                  >
+                    <svg className="w-4 h-4" fill={session.pinned ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M16 3l5 5-3 1-4 4 1 5-2 2-4-4-5 5-1-1 5-5-4-4 2-2 5 1 4-4 1-3z" /></svg>
+                  </button>
+                  <button
+                    onClick={(e) => onDelete(session.id, e)}
+                    className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-all"
+                    title="Delete Chat"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                  </button>
+                </div>
               </div>
             );
           })}
+          {hasMore && (
+            <button
+              onClick={onLoadMore}
+              className="w-full py-2 text-xs text-slate-500 hover:text-slate-300 transition-colors"
+            >
+              Load older conversations
+            </button>
+          )}
         </div>
         
         {/* User Profile Footer */}
         <div className="p-4 border-t border-slate-800">
            {user ? (
              <div className="flex items-center gap-3">
-               <div className="w-10 h-10 rounded-full bg-indigo-500 flex items-center justify-center overflow-hidden ring-2 ring-indigo-500/30">
+               <button
+                 onClick={onOpenProfile}
+                 className="w-10 h-10 rounded-full bg-indigo-500 flex-shrink-0 flex items-center justify-center overflow-hidden ring-2 ring-indigo-500/30 hover:ring-indigo-400 transition-all"
+                 title="Edit profile"
+               >
                  {user.photoURL ? (
                    <img src={user.photoURL} alt={user.displayName} className="w-full h-full object-cover" />
                  ) : (
                    <span className="text-white font-bold">{user.displayName.charAt(0)}</span>
                  )}
-               </div>
+               </button>
                <div className="flex-1 min-w-0">
-                 <p className="text-sm font-medium text-white truncate">{user.displayName}</p>
-                 <button 
-                   onClick={logout}
-                   className="text-xs text-slate-400 hover:text-red-400 transition-colors"
-                 >
-                   Sign Out (Local)
-                 </button>
+                 <div className="flex items-center gap-1.5">
+                   <p className="text-sm font-medium text-white truncate">{user.displayName}</p>
+                   {user.encryption ? (
+                     <span className="flex-shrink-0 text-emerald-400" title="Conversations are encrypted on this device">
+                       <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>
+                     </span>
+                   ) : (
+                     <span className="flex-shrink-0 text-[9px] font-semibold uppercase tracking-wider text-amber-400/80 border border-amber-400/30 rounded px-1" title="This profile has no passcode, so its conversations are stored unencrypted">
+                       Not encrypted
+                     </span>
+                   )}
+                 </div>
+                 <div className="flex flex-wrap items-center gap-x-3 gap-y-0.5">
+                   <button 
+                     onClick={() => logout()}
+                     className="text-xs text-slate-400 hover:text-red-400 transition-colors"
+                   >
+                     Sign Out (Local)
+                   </button>
+                   <button
+                     onClick={onOpenBackup}
+                     className="text-xs text-slate-400 hover:text-cyan-400 transition-colors"
+                   >
+                     Backup
+                   </button>
+                   <button
+                     onClick={onOpenStorage}
+                     className="text-xs text-slate-400 hover:text-cyan-400 transition-colors"
+                   >
+                     Storage
+                   </button>
+                   <button
+                     onClick={onOpenProfile}
+                     className="text-xs text-slate-400 hover:text-cyan-400 transition-colors"
+                   >
+                     Profile
+                   </button>
+                   {canLockProfile(user) && (
+                     <button
+                       onClick={lockNow}
+                       className="text-xs text-slate-400 hover:text-cyan-400 transition-colors"
+                     >
+                       Lock
+                     </button>
+                   )}
+                 </div>
                </div>
              </div>
            ) : (
@@ -726,32 +4918,174 @@ const Sidebar: React.FC<{
   );
 };
 
+const THINKING_OPTIONS: [string, number | undefined][] = [
+  ['Automatic', undefined],
+  ['Off', 0],
+  ['Light (1K tokens)', 1024],
+  ['Standard (4K tokens)', 4096],
+  ['Deep (16K tokens)', 16384]
+];
+
+interface SessionSettingsMenuProps {
+  session: ChatSession;
+  mode: ChatMode;
+  defaults?: GenerationSettings;
+  onChange: (settings: GenerationSettings | undefined) => void;
+  onSaveDefaults: (settings: GenerationSettings) => Promise<void>;
+}
+
+// Edits the current session's overrides. Fields show their effective value, so an
+// untouched session displays what the user's defaults resolve to.
+const SessionSettingsMenu: React.FC<SessionSettingsMenuProps> = ({ session, mode, defaults, onChange, onSaveDefaults }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [savedDefaults, setSavedDefaults] = useState(false);
+  const [saveError, setSaveError] = useState(false);
+  const effective = resolveGenerationSettings(session, mode, defaults, modelProvider);
+  const inheritedThinking = resolveGenerationSettings({ ...session, settings: undefined }, mode, defaults, modelProvider).thinkingBudget;
+  const { capabilities } = modelProvider;
+  const canSearch = capabilities.webSearch || !!capabilities.fakeSources;
+  const thinkingOptions = THINKING_OPTIONS.filter(([, budget]) => budget !== 0 || !THINKING_REQUIRED_MODELS.includes(effective.model));
+
+  const update = (changes: GenerationSettings) => {
+    setSavedDefaults(false);
+    const next = { ...session.settings, ...changes };
+    (Object.keys(next) as (keyof GenerationSettings)[]).forEach(key => { if (next[key] === undefined) delete next[key]; });
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const saveDefaults = async () => {
+    setSaveError(false);
+    try {
+      await onSaveDefaults({ ...defaults, ...session.settings });
+      setSavedDefaults(true);
+    } catch (e) {
+      console.error("Failed to save defaults", e);
+      setSaveError(true);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => { setIsOpen(!isOpen); setSavedDefaults(false); setSaveError(false); }}
+        className={`transition-colors p-2 rounded-lg hover:bg-slate-800/50 ${session.settings ? 'text-cyan-400' : 'text-slate-400 hover:text-cyan-400'}`}
+        title="Model Settings"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+        </svg>
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-72 z-20 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-4 space-y-4 animation-fade-in">
+            <div className="text-xs font-semibold text-slate-400 uppercase tracking-widest">This Conversation</div>
+
+            <label className="block space-y-1">
+              <span className="text-xs text-slate-400">Model</span>
+              <select
+                value={effective.model}
+                onChange={e => update({ model: e.target.value })}
+                className="w-full bg-slate-800 text-slate-200 text-sm border border-slate-700 rounded-lg px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-cyan-500"
+              >
+                {modelProvider.models.map(model => <option key={model} value={model}>{model}</option>)}
+              </select>
+            </label>
+
+            <div className="space-y-1">
+              <div className="flex items-center justify-between text-xs text-slate-400">
+                <span>Temperature</span>
+                <span className="flex items-center gap-2">
+                  <span className="tabular-nums text-slate-200">{effective.temperature?.toFixed(1) ?? 'Model default'}</span>
+                  {session.settings?.temperature !== undefined && (
+                    <button onClick={() => update({ temperature: undefined })} className="text-cyan-400 hover:text-cyan-300">Reset</button>
+                  )}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={2}
+                step={0.1}
+                value={effective.temperature ?? 1}
+                onChange={e => update({ temperature: Number(e.target.value) })}
+                className="w-full accent-cyan-500"
+              />
+            </div>
+
+            {capabilities.thinking && (
+              <label className="block space-y-1">
+                <span className="text-xs text-slate-400">Thinking</span>
+                <select
+                  value={session.settings?.thinkingBudget ?? ''}
+                  onChange={e => update({ thinkingBudget: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  className="w-full bg-slate-800 text-slate-200 text-sm border border-slate-700 rounded-lg px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-cyan-500"
+                >
+                  {thinkingOptions.map(([label, budget]) => (
+                    <option key={label} value={budget ?? ''}>
+                      {budget === undefined && inheritedThinking !== undefined
+                        ? `${label} (${inheritedThinking === 0 ? 'off' : `${inheritedThinking / 1024}K tokens`})`
+                        : label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            <label className={`flex items-center justify-between text-sm ${canSearch ? 'text-slate-300 cursor-pointer' : 'text-slate-600'}`}>
+              <span>{capabilities.webSearch ? 'Google Search grounding' : 'Placeholder sources'}</span>
+              <input
+                type="checkbox"
+                checked={canSearch && effective.webSearch}
+                disabled={!canSearch}
+                onChange={e => update({ webSearch: e.target.checked })}
+                className="accent-cyan-500"
+              />
+            </label>
+
+            <div className="flex items-center justify-between pt-3 border-t border-slate-800 text-xs">
+              <button
+                onClick={() => { setSavedDefaults(false); onChange(undefined); }}
+                disabled={!session.settings}
+                className="text-slate-400 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              >
+                Use my defaults
+              </button>
+              <button
+                onClick={saveDefaults}
+                disabled={!session.settings || savedDefaults}
+                className="text-cyan-400 hover:text-cyan-300 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              >
+                {savedDefaults ? 'Saved' : 'Save as my defaults'}
+              </button>
+            </div>
+            {saveError && <p className="text-xs text-red-400">Couldn't save your defaults. Try again.</p>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
 interface HeaderProps { 
   onMenuClick: () => void;
   onClear: () => void;
   language: string;
   setLanguage: (lang: string) => void;
-  appMode: AppMode;
+  modes: ChatMode[];
+  mode: ChatMode;
   setAppMode: (mode: AppMode) => void;
+  onManageModes: () => void;
+  onExport: (format: ExportFormat) => void;
+  session?: ChatSession;
+  settingsDefaults?: GenerationSettings;
+  onSettingsChange: (settings: GenerationSettings | undefined) => void;
+  onSaveSettingsDefaults: (settings: GenerationSettings) => Promise<void>;
 }
 
-const Header: React.FC<HeaderProps> = ({ onMenuClick, onClear, language, setLanguage, appMode, setAppMode }) => {
-  
-  const getLogoGradient = () => {
-    switch(appMode) {
-      case 'tutor': return 'from-violet-500 to-fuchsia-600';
-      case 'research': return 'from-emerald-400 to-teal-600';
-      default: return 'from-cyan-400 to-blue-600';
-    }
-  };
-
-  const getTextGradient = () => {
-    switch(appMode) {
-      case 'tutor': return 'from-violet-400 to-fuchsia-500';
-      case 'research': return 'from-emerald-400 to-teal-500';
-      default: return 'from-cyan-400 to-blue-500';
-    }
-  };
+const Header: React.FC<HeaderProps> = ({ onMenuClick, onClear, language, setLanguage, modes, mode, setAppMode, onManageModes, onExport, session, settingsDefaults, onSettingsChange, onSaveSettingsDefaults }) => {
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const theme = MODE_THEMES[mode.color];
 
   return (
     <header className="fixed top-0 left-0 right-0 h-16 glass-panel z-50 flex items-center justify-between px-4 md:px-6 shadow-lg">
@@ -763,64 +5097,41 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick, onClear, language, setLang
           <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" /></svg>
         </button>
         <div className="flex items-center gap-2">
-          <div className={`w-8 h-8 rounded-full flex items-center justify-center transition-colors duration-500 bg-gradient-to-tr ${getLogoGradient()}`}>
-            {appMode === 'tutor' && (
-               <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path d="M12 14l9-5-9-5-9 5 9 5z" />
-                  <path d="M12 14l6.16-3.422a12.083 12.083 0 01.665 6.479A11.952 11.952 0 0012 20.055a11.952 11.952 0 00-6.824-2.998 12.078 12.078 0 01.665-6.479L12 14z" />
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 14l9-5-9-5-9 5 9 5zm0 0l6.16-3.422a12.083 12.083 0 01.665 6.479A11.952 11.952 0 0012 20.055a11.952 11.952 0 00-6.824-2.998 12.078 12.078 0 01.665-6.479L12 14zm-4 6v-7.5l4-2.222" />
-               </svg>
-            )}
-            {appMode === 'research' && (
-               <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19.428 15.428a2 2 0 00-1.022-.547l-2.384-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z" />
-               </svg>
-            )}
-            {appMode === 'standard' && (
-              <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-              </svg>
-            )}
+          <div className={`w-8 h-8 rounded-full flex items-center justify-center transition-colors duration-500 bg-gradient-to-tr ${theme.logo}`}>
+            <ModeGlyph icon={mode.icon} className="w-5 h-5 text-white" />
           </div>
-          <span className={`text-xl md:text-2xl font-bold brand-font bg-clip-text text-transparent borai-glow transition-colors duration-500 bg-gradient-to-r ${getTextGradient()}`}>
+          <span className={`text-xl md:text-2xl font-bold brand-font bg-clip-text text-transparent borai-glow transition-colors duration-500 bg-gradient-to-r ${theme.title}`}>
             BorAI 
-            {appMode === 'tutor' && <span className="text-sm font-light tracking-widest text-white/80 ml-1 hidden sm:inline">TUTOR</span>}
-            {appMode === 'research' && <span className="text-sm font-light tracking-widest text-white/80 ml-1 hidden sm:inline">RESEARCH</span>}
+            {mode.id !== DEFAULT_MODE.id && (
+              <span className="text-sm font-light tracking-widest text-white/80 ml-1 hidden sm:inline">{mode.name.toUpperCase()}</span>
+            )}
           </span>
         </div>
       </div>
       <div className="flex items-center gap-2 md:gap-4">
         
         {/* Mode Toggles */}
-        <div className="flex items-center gap-1 bg-slate-800/50 p-1 rounded-xl border border-slate-700/50">
-          <button
-            onClick={() => setAppMode(appMode === 'tutor' ? 'standard' : 'tutor')}
-            className={`p-1.5 rounded-lg transition-all duration-300 ${
-              appMode === 'tutor'
-                ? 'bg-violet-500/20 text-violet-200 shadow-sm' 
-                : 'text-slate-400 hover:text-white hover:bg-slate-700/50'
-            }`}
-            title="Homework/Tutor Mode"
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-               <path d="M12 14l9-5-9-5-9 5 9 5z" />
-               <path d="M12 14l6.16-3.422a12.083 12.083 0 01.665 6.479A11.952 11.952 0 0012 20.055a11.952 11.952 0 00-6.824-2.998 12.078 12.078 0 01.665-6.479L12 14z" />
-               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 14l9-5-9-5-9 5 9 5zm0 0l6.16-3.422a12.083 12.083 0 01.665 6.479A11.952 11.952 0 0012 20.055a11.952 11.952 0 00-6.824-2.998 12.078 12.078 0 01.665-6.479L12 14zm-4 6v-7.5l4-2.222" />
-            </svg>
-          </button>
-          
+        <div className="flex items-center gap-1 bg-slate-800/50 p-1 rounded-xl border border-slate-700/50 max-w-[40vw] overflow-x-auto">
+          {modes.filter(m => m.id !== DEFAULT_MODE.id).map(m => (
+            <button
+              key={m.id}
+              onClick={() => setAppMode(mode.id === m.id ? DEFAULT_MODE.id : m.id)}
+              className={`p-1.5 rounded-lg transition-all duration-300 flex-shrink-0 ${
+                mode.id === m.id
+                  ? `${MODE_THEMES[m.color].toggle} shadow-sm`
+                  : 'text-slate-400 hover:text-white hover:bg-slate-700/50'
+              }`}
+              title={`${m.name} Mode`}
+            >
+              <ModeGlyph icon={m.icon} className="w-5 h-5" />
+            </button>
+          ))}
           <button
-            onClick={() => setAppMode(appMode === 'research' ? 'standard' : 'research')}
-            className={`p-1.5 rounded-lg transition-all duration-300 ${
-              appMode === 'research'
-                ? 'bg-emerald-500/20 text-emerald-200 shadow-sm' 
-                : 'text-slate-400 hover:text-white hover:bg-slate-700/50'
-            }`}
-            title="Deep Research Mode"
+            onClick={onManageModes}
+            className="p-1.5 rounded-lg text-slate-500 hover:text-white hover:bg-slate-700/50 transition-colors flex-shrink-0"
+            title="Manage Modes"
           >
-             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9" />
-             </svg>
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>
           </button>
         </div>
 
@@ -841,6 +5152,48 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick, onClear, language, setLang
              </div>
         </div>
 
+        {session && (
+          <SessionSettingsMenu
+            session={session}
+            mode={mode}
+            defaults={settingsDefaults}
+            onChange={onSettingsChange}
+            onSaveDefaults={onSaveSettingsDefaults}
+          />
+        )}
+
+        <div className="relative">
+          <button
+            onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+            className="text-slate-400 hover:text-cyan-400 transition-colors p-2 rounded-lg hover:bg-slate-800/50"
+            title="Export Conversation"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+          </button>
+          {isExportMenuOpen && (
+            <>
+              <div className="fixed inset-0 z-10" onClick={() => setIsExportMenuOpen(false)} />
+              <div className="absolute right-0 mt-2 w-48 z-20 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-1 animation-fade-in">
+                {([
+                  ['markdown', 'Markdown (.md)'],
+                  ['html', 'HTML (.html)'],
+                  ['print', 'Print / Save as PDF']
+                ] as [ExportFormat, string][]).map(([format, label]) => (
+                  <button
+                    key={format}
+                    onClick={() => { setIsExportMenuOpen(false); onExport(format); }}
+                    className="w-full text-left px-3 py-2 rounded-lg text-sm text-slate-300 hover:text-white hover:bg-slate-800 transition-colors"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
         <button 
           onClick={onClear}
           className="text-slate-400 hover:text-red-400 transition-colors p-2 rounded-lg hover:bg-slate-800/50" 
@@ -855,21 +5208,71 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick, onClear, language, setLang
   );
 };
 
-const SourceChip: React.FC<{ source: Source; index: number }> = ({ source, index }) => {
+const SourceChip: React.FC<{ source: Source; index: number; id?: string; isHighlighted?: boolean }> = ({ source, index, id, isHighlighted }) => {
+  return (
+    <a 
+      id={id}
+      href={source.uri} 
+      target="_blank" 
+      rel="noopener noreferrer"
+      className={`flex items-center gap-2 p-2 bg-slate-800/50 hover:bg-slate-700/50 border rounded-lg transition-colors group text-left ${isHighlighted ? 'border-cyan-400/70 ring-1 ring-cyan-400/50' : 'border-slate-700/50'}`}
+    >
+      <div className="w-5 h-5 flex-shrink-0 flex items-center justify-center bg-slate-800 rounded text-xs text-slate-400 group-hover:text-cyan-400 font-mono">
+        {index + 1}
+      </div>
+      <span className="text-xs text-slate-300 truncate group-hover:text-white">
+        {source.title}
+      </span>
+    </a>
+  );
+};
+
+// Loads the blob only once the image is actually rendered
+const AttachmentImage: React.FC<{ attachment: AttachmentRef; alt: string; className?: string }> = ({ attachment, alt, className }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isMissing, setIsMissing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUrl(null);
+    setIsMissing(false);
+    getAttachmentUrl(attachment.hash).then(result => {
+      if (cancelled) return;
+      if (result) setUrl(result);
+      else setIsMissing(true);
+    });
+    return () => { cancelled = true; };
+  }, [attachment.hash]);
+
+  if (isMissing) {
+    return <div className={`flex items-center justify-center bg-slate-900 text-[10px] text-slate-500 ${className || ''}`}>Image unavailable</div>;
+  }
+  if (!url) {
+    return <div className={`bg-slate-800/60 animate-pulse ${className || ''}`} />;
+  }
+  return <img src={url} alt={alt} className={className} />;
+};
+
+// How much of the history budget the conversation uses; past 100% the next message
+// folds older turns into the summary
+const ContextMeter: React.FC<{ plan: ContextPlan }> = ({ plan }) => {
+  const ratio = plan.usedTokens / plan.budget;
+  const percent = Math.min(100, Math.round(ratio * 100));
+  const color = ratio >= 1 ? 'bg-amber-400' : ratio >= 0.75 ? 'bg-yellow-400' : 'bg-cyan-400';
+  const details = [
+    `~${plan.usedTokens.toLocaleString()} of ${plan.budget.toLocaleString()} tokens`,
+    plan.summarizedCount > 0 ? `${plan.summarizedCount} earlier messages summarized` : '',
+    ratio >= 1 ? 'Older turns will be summarized on the next message' : ''
+  ].filter(Boolean).join('\n');
+
   return (
-    <a 
-      href={source.uri} 
-      target="_blank" 
-      rel="noopener noreferrer"
-      className="flex items-center gap-2 p-2 bg-slate-800/50 hover:bg-slate-700/50 border border-slate-700/50 rounded-lg transition-colors group text-left"
-    >
-      <div className="w-5 h-5 flex-shrink-0 flex items-center justify-center bg-slate-800 rounded text-xs text-slate-400 group-hover:text-cyan-400 font-mono">
-        {index + 1}
-      </div>
-      <span className="text-xs text-slate-300 truncate group-hover:text-white">
-        {source.title}
+    <span className="inline-flex items-center gap-1.5 text-[10px] text-slate-500 uppercase tracking-widest" title={details}>
+      Context
+      <span className="w-12 h-1 rounded-full bg-slate-800 overflow-hidden">
+        <span className={`block h-full ${color}`} style={{ width: `${percent}%` }} />
       </span>
-    </a>
+      <span className="tabular-nums">{percent}%</span>
+    </span>
   );
 };
 
@@ -883,10 +5286,180 @@ const TypingIndicator: React.FC = () => {
   );
 };
 
-const ChatMessage: React.FC<{ msg: Message }> = ({ msg }) => {
+const RETRY_REASONS: Partial<Record<ModelErrorKind, string>> = {
+  'rate-limit': 'Rate limited',
+  server: 'Server busy',
+  network: 'Connection lost'
+};
+
+const RetryCountdown: React.FC<{ retry: NonNullable<Message['retry']> }> = ({ retry }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [retry.at]);
+
+  const seconds = Math.max(0, Math.ceil((retry.at - now) / 1000));
+  return (
+    <div className="mt-2 flex items-center gap-2 text-xs text-amber-300/90">
+      <svg className="w-3.5 h-3.5 animate-spin" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" /><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z" /></svg>
+      {RETRY_REASONS[retry.kind] || 'Request failed'}. {seconds > 0 ? `Retrying in ${seconds}s…` : 'Retrying…'}
+    </div>
+  );
+};
+
+const RESEARCH_STAGE_LABELS: Record<ResearchStage, string> = {
+  plan: 'Plan sub-questions',
+  search: 'Search',
+  merge: 'Merge sources',
+  report: 'Write report'
+};
+
+const ResearchStatusIcon: React.FC<{ status: ResearchStatus }> = ({ status }) => {
+  switch (status) {
+    case 'running':
+      return <svg className="w-3.5 h-3.5 flex-shrink-0 animate-spin text-emerald-400" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" /><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z" /></svg>;
+    case 'done':
+      return <svg className="w-3.5 h-3.5 flex-shrink-0 text-emerald-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 13l4 4L19 7" /></svg>;
+    case 'failed':
+      return <svg className="w-3.5 h-3.5 flex-shrink-0 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg>;
+    default:
+      return <span className="w-3.5 h-3.5 flex-shrink-0 flex items-center justify-center"><span className="w-2 h-2 rounded-full border border-slate-600" /></span>;
+  }
+};
+
+// Collapsible log of a deep research run. It stays open while the run is in progress
+// unless the user closes it; each sub-question expands to the findings it returned.
+const ResearchTimeline: React.FC<{ research: ResearchRun }> = ({ research }) => {
+  const [isOpen, setIsOpen] = useState<boolean | null>(null);
+  const [openQuery, setOpenQuery] = useState<number | null>(null);
+  const open = isOpen ?? !research.finishedAt;
+  const answered = research.queries.filter(q => q.status === 'done').length;
+  const stages = Object.keys(RESEARCH_STAGE_LABELS) as ResearchStage[];
+
+  const details: Record<ResearchStage, string> = {
+    plan: research.queries.length > 0 ? `${research.queries.length} sub-questions` : '',
+    search: research.queries.length > 0 ? `${answered} of ${research.queries.length} answered` : '',
+    merge: research.stages.merge === 'done' ? `${research.sources.length} unique sources` : '',
+    report: ''
+  };
+  const summary = research.finishedAt
+    ? `Deep research · ${research.queries.length} sub-questions · ${research.sources.length} sources · ${Math.max(1, Math.round((research.finishedAt - research.startedAt) / 1000))}s`
+    : `Researching · ${RESEARCH_STAGE_LABELS[stages.find(stage => research.stages[stage] === 'running') || 'plan'].toLowerCase()}…`;
+
+  return (
+    <div className="mb-4 rounded-xl border border-emerald-500/20 bg-slate-950/30 text-xs">
+      <button
+        onClick={() => setIsOpen(!open)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left text-slate-300 hover:text-white transition-colors"
+      >
+        <svg className={`w-3 h-3 flex-shrink-0 transition-transform ${open ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+        <span className="font-medium">{summary}</span>
+      </button>
+      {open && (
+        <ol className="px-3 pb-3 space-y-2">
+          {research.reused && (
+            <li className="text-slate-500 italic">Sub-questions and searches reused from the previous answer</li>
+          )}
+          {stages.map(stage => (
+            <li key={stage}>
+              <div className="flex items-center gap-2">
+                <ResearchStatusIcon status={research.stages[stage]} />
+                <span className={research.stages[stage] === 'pending' ? 'text-slate-500' : 'text-slate-200'}>{RESEARCH_STAGE_LABELS[stage]}</span>
+                {details[stage] && <span className="text-slate-500">{details[stage]}</span>}
+              </div>
+              {stage === 'search' && research.queries.length > 0 && (
+                <ul className="mt-1.5 ml-1.5 pl-3 border-l border-slate-800 space-y-1">
+                  {research.queries.map((query, idx) => (
+                    <li key={idx}>
+                      <button
+                        onClick={() => setOpenQuery(openQuery === idx ? null : idx)}
+                        disabled={!query.answer && !query.error}
+                        className="w-full flex items-start gap-2 text-left text-slate-400 enabled:hover:text-white transition-colors"
+                      >
+                        <span className="mt-px"><ResearchStatusIcon status={query.status} /></span>
+                        <span className="flex-1">{query.question}</span>
+                        {query.status === 'running' && query.retryAt && <span className="text-amber-300/90 whitespace-nowrap">Retrying…</span>}
+                        {query.sources && query.sources.length > 0 && <span className="text-slate-500 whitespace-nowrap">{query.sources.length} sources</span>}
+                      </button>
+                      {openQuery === idx && (
+                        query.error
+                          ? <p className="mt-1 ml-5 text-red-300/80">{query.error}</p>
+                          : <div className="mt-1 ml-5 prose prose-invert prose-sm max-w-none text-slate-400 text-xs"><ReactMarkdown>{query.answer || ''}</ReactMarkdown></div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+interface BranchInfo {
+  index: number;
+  count: number;
+}
+
+const ChatMessage: React.FC<{
+  msg: Message;
+  isFocused?: boolean;
+  branch?: BranchInfo; // Position among the alternatives for this turn, when there are several
+  disabled?: boolean; // A reply is being generated
+  onSwitchBranch?: (offset: number) => void;
+  onEdit?: (text: string) => void;
+  onRegenerate?: () => void;
+  onRetry?: () => void;
+}> = ({ msg, isFocused, branch, disabled, onSwitchBranch, onEdit, onRegenerate, onRetry }) => {
   const isUser = msg.role === 'user';
   const isError = msg.isError;
   const [isCopied, setIsCopied] = useState(false);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [highlightedSource, setHighlightedSource] = useState<number | null>(null);
+
+  // Citation markers are Markdown links to `#cite-n`, rendered as superscripts below.
+  // A failed answer keeps the sources and markers of the part that arrived.
+  const showSources = !isUser && !!msg.sources?.length;
+  const markedText = useMemo(() =>
+    showSources && msg.citations?.length
+      ? insertCitationMarkers(msg.text, msg.citations, i => `[${i + 1}](#cite-${i + 1})`)
+      : msg.text,
+    [msg.text, msg.citations, showSources]
+  );
+  const markdownComponents = useMemo<Components>(() => ({
+    a: ({ node, href, children, ...props }) => {
+      const cited = href?.match(/^#cite-(\d+)$/);
+      if (!cited) return <a href={href} {...props}>{children}</a>;
+      const index = Number(cited[1]) - 1;
+      return (
+        <sup>
+          <a
+            href={`#source-${msg.id}-${index + 1}`}
+            onMouseEnter={() => setHighlightedSource(index)}
+            onMouseLeave={() => setHighlightedSource(null)}
+            onClick={e => {
+              e.preventDefault();
+              document.getElementById(`source-${msg.id}-${index + 1}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+            }}
+            title={msg.sources?.[index]?.title}
+            className="no-underline text-cyan-400 hover:text-cyan-300 font-mono text-[0.7em]"
+          >
+            [{children}]
+          </a>
+        </sup>
+      );
+    }
+  }), [msg.id, msg.sources]);
+
+  const submitEdit = () => {
+    if (draft === null || (!draft.trim() && !msg.images?.length)) return;
+    onEdit?.(draft);
+    setDraft(null);
+  };
 
   const handleCopy = () => {
     if (!msg.text) return;
@@ -899,12 +5472,12 @@ const ChatMessage: React.FC<{ msg: Message }> = ({ msg }) => {
   };
   
   return (
-    <div className={`flex w-full mb-8 ${isUser ? 'justify-end' : 'justify-start'}`}>
+    <div id={`msg-${msg.id}`} className={`flex w-full mb-8 ${isUser ? 'justify-end' : 'justify-start'}`}>
       <div className={`max-w-[85%] md:max-w-[75%] flex flex-col ${isUser ? 'items-end' : 'items-start'}`}>
         <span className="text-xs text-slate-500 mb-1 ml-1 font-medium tracking-wider">
           {isUser ? 'YOU' : 'BORAI'}
         </span>
-        <div className={`relative px-6 py-4 rounded-2xl shadow-xl group ${isUser ? 'message-user text-white rounded-tr-sm' : isError ? 'bg-red-500/10 border border-red-500/50 text-red-200 rounded-tl-sm' : 'message-ai text-slate-100 rounded-tl-sm'}`}>
+        <div className={`relative px-6 py-4 rounded-2xl shadow-xl group transition-shadow duration-500 ${isFocused ? 'ring-2 ring-cyan-400/70' : ''} ${isUser ? 'message-user text-white rounded-tr-sm' : isError ? 'bg-red-500/10 border border-red-500/50 text-red-200 rounded-tl-sm' : 'message-ai text-slate-100 rounded-tl-sm'}`}>
           {!isUser && !isError && (
             <button
               onClick={handleCopy}
@@ -922,19 +5495,114 @@ const ChatMessage: React.FC<{ msg: Message }> = ({ msg }) => {
           {msg.images && msg.images.length > 0 && (
             <div className="mb-4 flex flex-wrap gap-2">
               {msg.images.map((img, idx) => (
-                <div key={idx} className="relative rounded-lg overflow-hidden border border-white/20">
-                  <img src={img.previewUri} alt="User uploaded attachment" className="max-h-64 object-cover" />
+                <div key={`${img.hash}-${idx}`} className="relative rounded-lg overflow-hidden border border-white/20">
+                  <AttachmentImage attachment={img} alt="User uploaded attachment" className="max-h-64 min-w-[4rem] min-h-[4rem] object-cover" />
                 </div>
               ))}
             </div>
           )}
 
-          <div className="prose prose-invert prose-sm md:prose-base max-w-none leading-relaxed">
-             <ReactMarkdown>{msg.text}</ReactMarkdown>
-          </div>
+          {msg.research && <ResearchTimeline research={msg.research} />}
+
+          {draft !== null ? (
+            <div className="flex flex-col gap-2 min-w-[16rem]">
+              <textarea
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submitEdit(); }
+                  if (e.key === 'Escape') setDraft(null);
+                }}
+                rows={Math.min(8, Math.max(2, draft.split('\n').length))}
+                className="w-full bg-slate-950/40 border border-white/20 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-cyan-400 resize-y"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setDraft(null)} className="px-3 py-1 text-xs rounded-lg text-slate-300 hover:text-white hover:bg-white/10 transition-colors">
+                  Cancel
+                </button>
+                <button
+                  onClick={submitEdit}
+                  disabled={disabled || (!draft.trim() && !msg.images?.length)}
+                  className="px-3 py-1 text-xs rounded-lg bg-white/20 hover:bg-white/30 text-white font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Save & Send
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="prose prose-invert prose-sm md:prose-base max-w-none leading-relaxed">
+               <ReactMarkdown components={markdownComponents}>{markedText}</ReactMarkdown>
+            </div>
+          )}
+
+          {msg.retry && msg.isStreaming && <RetryCountdown retry={msg.retry} />}
+
+          {isError && onRetry && (
+            <button
+              onClick={onRetry}
+              disabled={disabled}
+              className="mt-3 inline-flex items-center gap-1.5 px-3 py-1 rounded-lg text-xs font-medium bg-red-500/10 border border-red-500/50 text-red-200 hover:bg-red-500/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+              Retry
+            </button>
+          )}
+
+          {msg.stopped && (
+            <div className="mt-3 flex items-center gap-1.5 text-[10px] font-semibold uppercase tracking-wider text-amber-400/80">
+              <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24"><rect x="6" y="6" width="12" height="12" rx="2" /></svg>
+              Stopped
+            </div>
+          )}
         </div>
 
-        {!isUser && !isError && msg.sources && msg.sources.length > 0 && (
+        {(branch || onEdit || onRegenerate) && draft === null && !msg.isStreaming && (
+          <div className="mt-1.5 flex items-center gap-1 text-xs text-slate-500">
+            {branch && (
+              <div className="flex items-center">
+                <button
+                  onClick={() => onSwitchBranch?.(-1)}
+                  disabled={disabled || branch.index === 0}
+                  className="px-1.5 py-0.5 rounded hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-500"
+                  title="Previous version"
+                >
+                  ‹
+                </button>
+                <span className="tabular-nums">{branch.index + 1}/{branch.count}</span>
+                <button
+                  onClick={() => onSwitchBranch?.(1)}
+                  disabled={disabled || branch.index === branch.count - 1}
+                  className="px-1.5 py-0.5 rounded hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-500"
+                  title="Next version"
+                >
+                  ›
+                </button>
+              </div>
+            )}
+            {onEdit && (
+              <button
+                onClick={() => setDraft(msg.text)}
+                disabled={disabled}
+                className="px-2 py-0.5 rounded hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Edit
+              </button>
+            )}
+            {onRegenerate && (
+              <button
+                onClick={onRegenerate}
+                disabled={disabled}
+                title={msg.research?.stages.merge === 'done' ? 'Rewrite the report from the saved research' : undefined}
+                className="px-2 py-0.5 rounded hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Regenerate
+              </button>
+            )}
+          </div>
+        )}
+
+        {showSources && (
           <div className="mt-4 w-full">
             <div className="flex items-center gap-2 mb-2">
               <div className="h-px bg-slate-800 flex-1"></div>
@@ -942,8 +5610,14 @@ const ChatMessage: React.FC<{ msg: Message }> = ({ msg }) => {
               <div className="h-px bg-slate-800 flex-1"></div>
             </div>
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-              {msg.sources.map((source, idx) => (
-                <SourceChip key={`${source.uri}-${idx}`} source={source} index={idx} />
+              {msg.sources!.map((source, idx) => (
+                <SourceChip
+                  key={`${source.uri}-${idx}`}
+                  id={`source-${msg.id}-${idx + 1}`}
+                  source={source}
+                  index={idx}
+                  isHighlighted={highlightedSource === idx}
+                />
               ))}
             </div>
           </div>
@@ -958,79 +5632,282 @@ const createNewSession = (userId: string): ChatSession => ({
   userId,
   title: 'New Conversation',
   messages: [{
-    id: 'init-1',
+    id: GREETING_ID,
     role: 'model',
     text: "I am **BorAI**. I search the entire web and synthesize data to give you the absolute best answer. \n\nWhat do you want to know today?"
   }],
-  appMode: 'standard',
+  appMode: DEFAULT_MODE.id,
   createdAt: Date.now(),
   updatedAt: Date.now()
 });
 
 const ChatApp: React.FC = () => {
-  const { user, setShowLoginModal, showLoginModal } = useAuth();
+  const { user, setShowLoginModal, showLoginModal, updatePreferences, isSigningOut } = useAuth();
+  // Full sessions opened this visit; the sidebar lists `summaries` and pages them in from IndexedDB
   const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [summaries, setSummaries] = useState<SessionSummary[]>([]);
+  const [hasMoreSummaries, setHasMoreSummaries] = useState(false);
   const [currentSessionId, setCurrentSessionId] = useState<string>('');
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isClearDialogOpen, setIsClearDialogOpen] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [isBackupDialogOpen, setIsBackupDialogOpen] = useState(false);
+  const [isStoragePanelOpen, setIsStoragePanelOpen] = useState(false);
+  const [isProfileDialogOpen, setIsProfileDialogOpen] = useState(false);
+  const [isModesDialogOpen, setIsModesDialogOpen] = useState(false);
+  const [customModes, setCustomModes] = useState<ChatMode[]>([]);
+  const [storageError, setStorageError] = useState<'quota' | 'failed' | null>(null);
   const [language, setLanguage] = useState('en');
   const [pendingImages, setPendingImages] = useState<ImageAttachment[]>([]);
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Sessions taken verbatim from another tab; saving them back would only echo the write
+  const syncedSessionsRef = useRef(new WeakSet<ChatSession>());
+  const sessionsRef = useRef<ChatSession[]>([]);
+  sessionsRef.current = sessions;
+  const summariesRef = useRef<SessionSummary[]>([]);
+  summariesRef.current = summaries;
+  const currentSessionIdRef = useRef('');
+  currentSessionIdRef.current = currentSessionId;
+  const loadingMoreRef = useRef(false);
+  // The in-flight generation, so it can be stopped or cancelled when its session goes away
+  const activeRunRef = useRef<{ sessionId: string; controller: AbortController } | null>(null);
+  const lastSessionsRef = useRef<ChatSession[]>([]);
+
+  // Loaded sessions are fresher than their stored summaries, so they win
+  const sidebarSessions = useMemo(() => {
+    const byId = new Map(summaries.map(s => [s.id, s]));
+    sessions.forEach(s => byId.set(s.id, summarizeSession(s, byId.get(s.id)?.thumbnail)));
+    return [...byId.values()].sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.updatedAt - a.updatedAt);
+  }, [sessions, summaries]);
+
+  const upsertSummary = (summary: SessionSummary) => {
+    setSummaries(prev => prev.some(s => s.id === summary.id)
+      ? prev.map(s => s.id === summary.id ? summary : s)
+      : [summary, ...prev]);
+  };
+
+  // Folds a newer copy of a session (from another tab or a merged save) into state
+  const applyRemoteSession = (remote: ChatSession, replace = false) => {
+    setSessions(prev => {
+      const local = prev.find(s => s.id === remote.id);
+      if (!local || replace) {
+        syncedSessionsRef.current.add(remote);
+        return local ? prev.map(s => s.id === remote.id ? remote : s) : [remote, ...prev];
+      }
+      const { session, localChanges } = mergeSessions(local, remote);
+      const next = localChanges ? session : remote;
+      if (!localChanges) syncedSessionsRef.current.add(next);
+      return prev.map(s => s.id === remote.id ? next : s);
+    });
+  };
+
+  const removeFromState = (id: string) => {
+    const remaining = summariesRef.current.filter(s => s.id !== id);
+    setSessions(prev => prev.filter(s => s.id !== id));
+    setSummaries(remaining);
+    return remaining;
+  };
+
+  const handleRemoteDelete = (id: string) => {
+    const wasCurrent = currentSessionIdRef.current === id;
+    const remaining = removeFromState(id);
+    if (remaining.length === 0) handleNewChat();
+    else if (wasCurrent) openSession(remaining[0].id);
+  };
+
+  // Loads a session's messages the first time it's opened
+  const openSession = async (id: string) => {
+    setCurrentSessionId(id);
+    if (sessionsRef.current.some(s => s.id === id)) return;
+    try {
+      const session = await db.getSession(id);
+      if (!session) return;
+      syncedSessionsRef.current.add(session); // Fresh from the DB; nothing to write back
+      setSessions(prev => prev.some(s => s.id === id) ? prev : [...prev, session]);
+    } catch (e) {
+      console.error("Error loading session", e);
+    }
+  };
+
+  // Fetches the first sidebar page and opens `preferredId`, or the most recent session
+  const loadSummaries = async (preferredId?: string) => {
+    if (!user) return;
+    const page = await db.getSessionSummaries(user.uid);
+    setSummaries(page.summaries);
+    setHasMoreSummaries(page.hasMore);
+    setSessions(prev => prev.filter(s => s.id === preferredId));
+
+    if (page.summaries.length === 0) {
+      const newSession = createNewSession(user.uid);
+      await db.saveSession(newSession);
+      syncedSessionsRef.current.add(newSession);
+      setSessions([newSession]);
+      setCurrentSessionId(newSession.id);
+      return;
+    }
+    const preferred = preferredId && (await db.getSessionSummary(preferredId));
+    const latest = page.summaries.reduce((a, b) => b.updatedAt > a.updatedAt ? b : a);
+    await openSession(preferred ? preferred.id : latest.id);
+  };
+
+  const loadMoreSummaries = async () => {
+    if (!user || !hasMoreSummaries || loadingMoreRef.current) return;
+    // The oldest loaded entry in cursor order: by updatedAt, then id
+    const oldest = summariesRef.current.filter(s => !s.pinned).reduce<SessionSummary | undefined>((min, s) =>
+      !min || s.updatedAt < min.updatedAt || (s.updatedAt === min.updatedAt && s.id < min.id) ? s : min, undefined);
+    loadingMoreRef.current = true;
+    try {
+      const page = await db.getSessionSummaries(user.uid, undefined, oldest);
+      setSummaries(prev => [...prev, ...page.summaries.filter(s => !prev.some(p => p.id === s.id))]);
+      setHasMoreSummaries(page.hasMore);
+    } catch (e) {
+      console.error("Error loading sessions", e);
+    } finally {
+      loadingMoreRef.current = false;
+    }
+  };
+
+  const loadModes = async () => {
+    if (!user) return;
+    try {
+      setCustomModes(await db.getModes(user.uid));
+    } catch (e) {
+      console.error("Error loading modes", e);
+    }
+  };
 
   // Force login if no user
   useEffect(() => {
     if (!user) {
         setShowLoginModal(true);
         setSessions([]);
+        setSummaries([]);
+        setCustomModes([]);
     } else {
         // Load sessions from DB
         const loadSessions = async () => {
            try {
-             const loadedSessions = await db.getSessions(user.uid);
-             if (loadedSessions.length > 0) {
-                setSessions(loadedSessions);
-                setCurrentSessionId(loadedSessions[0].id);
-             } else {
-                const newSession = createNewSession(user.uid);
-                await db.saveSession(newSession);
-                setSessions([newSession]);
-                setCurrentSessionId(newSession.id);
+             const retentionDays = user.preferences?.retentionDays;
+             if (retentionDays) {
+               await db.applyRetention(user.uid, retentionDays).catch(e => console.error("Retention cleanup failed", e));
              }
+             await loadSummaries();
            } catch (e) {
              console.error("Error loading sessions", e);
            }
         };
         loadSessions();
+        loadModes();
     }
-  }, [user]);
+  }, [user?.uid]);
 
-  // Persist Current Session to DB on changes
+  // Another tab saved or deleted one of this user's sessions
   useEffect(() => {
-    if (!user || !currentSessionId) return;
-    
-    const sessionToSave = sessions.find(s => s.id === currentSessionId);
-    if (sessionToSave) {
-        // Debounce saving slightly or just save on every change
-        db.saveSession(sessionToSave).catch(e => console.error("Save failed", e));
-    }
-  }, [sessions, currentSessionId, user]);
+    if (!user) return;
+    return syncBus.subscribe(async msg => {
+      if (msg.type === 'logout' || msg.type === 'key-changed' || msg.userId !== user.uid) return;
+      if (msg.type === 'session-deleted') {
+        handleRemoteDelete(msg.sessionId);
+        return;
+      }
+      try {
+        const summary = await db.getSessionSummary(msg.sessionId);
+        if (summary) upsertSummary(summary);
+        if (!sessionsRef.current.some(s => s.id === msg.sessionId)) return;
+        const remote = await db.getSession(msg.sessionId);
+        if (remote) applyRemoteSession(remote, msg.type === 'session-replaced');
+      } catch (e) {
+        console.error("Failed to sync session", e);
+      }
+    });
+  }, [user?.uid]);
+
+  // Persist every session that changed since the last render. Not just the current one:
+  // a cancelled generation finishes writing into a session the user has already left.
+  useEffect(() => {
+    const previous = lastSessionsRef.current;
+    lastSessionsRef.current = sessions;
+    if (!user) return;
+
+    sessions.forEach(sessionToSave => {
+      if (previous.includes(sessionToSave) || syncedSessionsRef.current.has(sessionToSave)) return;
+      // Streaming chunks are coalesced; the final snapshot (and any other edit) is written right away
+      const isStreaming = sessionToSave.messages.some(m => m.isStreaming);
+      (isStreaming ? db.scheduleSave(sessionToSave) : db.saveSession(sessionToSave))
+        .then(merged => {
+          setStorageError(null);
+          if (merged) applyRemoteSession(merged);
+        })
+        .catch(e => {
+          console.error("Save failed", e);
+          setStorageError(isQuotaError(e) ? 'quota' : 'failed');
+        });
+    });
+  }, [sessions, user]);
+
+  // Leaving a session mid-answer stops the answer rather than streaming into the background
+  useEffect(() => {
+    const run = activeRunRef.current;
+    if (run && run.sessionId !== currentSessionId) run.controller.abort();
+  }, [currentSessionId]);
+
+  // Signing out (here, or after a key change in another tab) stops the answer too: its
+  // remaining chunks could no longer be saved
+  useEffect(() => {
+    if (isSigningOut) activeRunRef.current?.controller.abort();
+  }, [isSigningOut]);
+
+  useEffect(() => () => activeRunRef.current?.controller.abort(), [user?.uid]);
 
   const currentSession = sessions.find(s => s.id === currentSessionId);
   // Safe access
   const messages = currentSession ? currentSession.messages : [];
-  const appMode = currentSession ? currentSession.appMode : 'standard';
+  const appMode = currentSession ? currentSession.appMode : DEFAULT_MODE.id;
+  const modes = useMemo(() => [...BUILT_IN_MODES, ...customModes], [customModes]);
+  const activeMode = findMode(modes, appMode);
+  const theme = MODE_THEMES[activeMode.color];
+  const contextPlan = useMemo(
+    () => currentSession ? planContext(currentSession, null, historyBudget(modelProvider)) : null,
+    [currentSession]
+  );
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
   useEffect(() => {
+    if (focusedMessageId) {
+      document.getElementById(`msg-${focusedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
     scrollToBottom();
-  }, [messages, pendingImages, currentSessionId]);
+  }, [messages, pendingImages, currentSessionId, focusedMessageId]);
+
+  // Drop the search highlight after a moment so normal auto-scroll resumes
+  useEffect(() => {
+    if (!focusedMessageId) return;
+    const timer = setTimeout(() => setFocusedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [focusedMessageId]);
+
+  // Push coalesced writes out before the tab is hidden, frozen or closed. IndexedDB work
+  // started during beforeunload usually completes, which is as good as the browser allows.
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') db.flushSaves();
+    };
+    const handleBeforeUnload = () => { db.flushSaves(); };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+    };
+  }, []);
 
   // Global Keyboard Shortcuts
   useEffect(() => {
@@ -1056,6 +5933,7 @@ const ChatApp: React.FC = () => {
     if (!user) return;
     const newSession = createNewSession(user.uid);
     await db.saveSession(newSession);
+    syncedSessionsRef.current.add(newSession);
     setSessions(prev => [newSession, ...prev]);
     setCurrentSessionId(newSession.id);
     setIsSidebarOpen(false);
@@ -1063,36 +5941,87 @@ const ChatApp: React.FC = () => {
     setPendingImages([]);
   };
 
+  const reloadSessions = async () => {
+    if (!user) return;
+    try {
+      // The current session may have been changed underneath us (import, image stripping)
+      const current = await db.getSession(currentSessionId);
+      if (current) applyRemoteSession(current, true);
+      await loadSummaries(currentSessionId);
+    } catch (e) {
+      console.error("Error loading sessions", e);
+    }
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    if (!currentSession) return;
+    exportSession(currentSession, format).catch(e => {
+      console.error("Export failed", e);
+      alert(e.message || "Export failed.");
+    });
+  };
+
+  const handleTogglePin = async (id: string) => {
+    const target = sessions.find(s => s.id === id) || await db.getSession(id).catch(() => undefined);
+    if (!target) return;
+    const updated = { ...target, pinned: !target.pinned };
+    setSessions(prev => prev.some(s => s.id === id) ? prev.map(s => s.id === id ? updated : s) : [...prev, updated]);
+    db.saveSession(updated)
+      .then(merged => { if (merged) applyRemoteSession(merged); })
+      .catch(e => console.error("Save failed", e));
+  };
+
+  const retrySave = () => {
+    if (!currentSession) return;
+    db.saveSession(currentSession)
+      .then(() => setStorageError(null))
+      .catch(e => setStorageError(isQuotaError(e) ? 'quota' : 'failed'));
+  };
+
+  const handleJumpToMessage = async (sessionId: string, messageId?: string) => {
+    setIsSidebarOpen(false);
+    await openSession(sessionId);
+    // A hit on another branch makes that branch the visible one
+    if (messageId) {
+      setSessions(prev => prev.map(s =>
+        s.id === sessionId && !s.messages.some(m => m.id === messageId) ? activateThrough(s, messageId) : s
+      ));
+    }
+    setFocusedMessageId(messageId || null);
+  };
+
   const handleDeleteSession = async (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (!user) return;
 
     await db.deleteSession(id);
-    const newSessions = sessions.filter(s => s.id !== id);
+    const remaining = removeFromState(id);
     
-    if (newSessions.length === 0) {
+    if (remaining.length === 0) {
       await handleNewChat();
-    } else {
-      setSessions(newSessions);
-      if (currentSessionId === id) {
-        setCurrentSessionId(newSessions[0].id);
-      }
+    } else if (currentSessionId === id) {
+      await openSession(remaining[0].id);
     }
   };
 
   const clearHistory = async () => {
     if (!user) return;
+    handleStop();
     const newSession = createNewSession(user.uid);
     // Keep the ID if we just want to clear messages, or replace? replacing is easier for "Clear" usually means empty chat
     // But let's keep ID to not break references, just reset content
     const cleanedSession = { 
         ...currentSession!, 
         messages: newSession.messages, 
+        branches: undefined, // Earlier versions of edited turns go too
+        contextSummary: undefined,
         updatedAt: Date.now() 
     };
     
     setSessions(prev => prev.map(s => s.id === currentSessionId ? cleanedSession : s));
-    await db.saveSession(cleanedSession);
+    // Forced so a concurrent tab's messages are not merged back in
+    await db.saveSession(cleanedSession, { force: true });
+    db.collectAttachmentGarbage().catch(e => console.error("Attachment GC failed", e));
     
     setIsClearDialogOpen(false);
     setPendingImages([]);
@@ -1134,218 +6063,165 @@ const ChatApp: React.FC = () => {
 
     const currentImages = [...pendingImages];
     const currentInput = input.trim();
+    setIsLoading(true);
+
+    let imageRefs: AttachmentRef[];
+    try {
+      imageRefs = await Promise.all(currentImages.map(img => db.putAttachment(img, user!.uid)));
+    } catch (error) {
+      console.error("Error storing attachment:", error);
+      if (isQuotaError(error)) setStorageError('quota');
+      else alert("Failed to save image.");
+      setIsLoading(false);
+      return;
+    }
+    // Seed the URL cache so the just-sent images render without a DB round trip
+    imageRefs.forEach((ref, i) => {
+      if (!attachmentUrlCache.has(ref.hash)) attachmentUrlCache.set(ref.hash, Promise.resolve(currentImages[i].previewUri));
+    });
 
     const userMsg: Message = {
       id: Date.now().toString(),
       role: 'user',
       text: currentInput,
-      images: currentImages.length > 0 ? currentImages : undefined
+      images: imageRefs.length > 0 ? imageRefs : undefined
     };
-    
-    const modelMsgId = (Date.now() + 1).toString();
 
     let newTitle = currentSession.title;
     if (currentSession.messages.length === 1 && currentSession.title === 'New Conversation') {
       newTitle = generateTitle(currentInput || (currentImages.length > 0 ? 'Image Query' : 'Conversation'));
     }
 
-    // Optimistic Update
-    const updatedSession = {
-        ...currentSession,
-        title: newTitle,
-        messages: [...currentSession.messages, userMsg],
-        updatedAt: Date.now()
-    };
-    
-    setSessions(prev => prev.map(s => s.id === currentSessionId ? updatedSession : s));
-    
+    const lastMessage = currentSession.messages[currentSession.messages.length - 1];
     setInput('');
     setPendingImages([]);
+    await generateReply({
+      ...branchFrom(currentSession, lastMessage?.id ?? null, userMsg),
+      title: newTitle,
+      updatedAt: Date.now()
+    });
+  };
+
+  // Streams an answer to the last message of `session`'s active branch, which must be a
+  // user message. The answer is added as that message's newest reply. `research` is an
+  // earlier answer's deep research, reused instead of searching again.
+  const generateReply = async (session: ChatSession, research?: ResearchRun) => {
+    const userMsg = session.messages[session.messages.length - 1];
+    const modelMsgId = Math.max(Date.now(), Number(userMsg.id) + 1).toString();
+    const sessionId = session.id;
     setIsLoading(true);
 
-    let fullText = '';
+    // Optimistic update with a placeholder for the AI
+    const withPlaceholder = branchFrom(session, userMsg.id, { id: modelMsgId, role: 'model', text: '', isStreaming: true });
+    setSessions(prev => prev.map(s => s.id === sessionId ? withPlaceholder : s));
 
-    try {
-      // Add placeholder for AI
+    const controller = new AbortController();
+    activeRunRef.current = { sessionId, controller };
+    const updateModelMessage = (updates: Partial<Message>) => {
       setSessions(prev => prev.map(s => 
-        s.id === currentSessionId 
-        ? { ...s, messages: [...s.messages, { id: modelMsgId, role: 'model', text: '', isStreaming: true }] }
+        s.id === sessionId 
+        ? mapMessages(s, m => m.id === modelMsgId ? { ...m, ...updates, updatedAt: Date.now() } : m)
         : s
       ));
+    };
 
-      const selectedLangName = LANGUAGES.find(l => l.code === language)?.name || 'English';
-
-      const standardInstruction = `You are BorAI. Synthesise information from all available sources on the web to provide the ultimate best answer.
-      Instructions:
-      1. SEARCH: Use search extensively.
-      2. MULTIMODAL: Analyze provided images.
-      3. KEY FINDINGS: For research queries, start with "## Key Findings" (translated).
-      4. OUTPUT: Answer in ${selectedLangName}.`;
-
-      const homeworkInstruction = `You are BorAI Tutor.
-      Instructions:
-      1. IDENTIFY: Determine subject and concept.
-      2. STEP-BY-STEP: Break down solutions. Explain *why*.
-      3. ENCOURAGE: Maintain academic tone.
-      4. OUTPUT: Answer in ${selectedLangName}.`;
-
-      const researchInstruction = `You are BorAI Researcher.
-      Instructions:
-      1. DEEP SEARCH: Granular, recent data.
-      2. CROSS-REFERENCE: Verify facts.
-      3. REPORT FORMAT: Executive Summary, Detailed Analysis, Data/Stats.
-      4. CITATIONS: Required.
-      5. OUTPUT: Answer in ${selectedLangName}.`;
-
-      let systemInstruction;
-      switch (appMode) {
-        case 'tutor': systemInstruction = homeworkInstruction; break;
-        case 'research': systemInstruction = researchInstruction; break;
-        default: systemInstruction = standardInstruction; break;
-      }
-
-      const historyContents = currentSession.messages.map(m => ({
-        role: m.role,
-        parts: [
-          ...(m.images?.map(img => ({ inlineData: { mimeType: img.mimeType, data: img.data } })) || []),
-          ...(m.text ? [{ text: m.text }] : [])
-        ]
-      }));
-
-      const currentParts: any[] = [
-        ...(currentImages.map(img => ({ inlineData: { mimeType: img.mimeType, data: img.data } }))),
-        ...(currentInput ? [{ text: currentInput }] : (currentImages.length > 0 ? [{ text: "" }] : []))
-      ];
-
-      const requestConfig: any = {
-        systemInstruction: systemInstruction,
-        tools: [{ googleSearch: {} }]
-      };
-
-      if (appMode === 'research') {
-        requestConfig.thinkingConfig = { thinkingBudget: 2048 };
-      }
-
-      // RETRY LOGIC for Rate Limits (429)
-      const makeRequest = async () => {
-         return await ai.models.generateContentStream({
-            model: MODEL_NAME,
-            contents: [...historyContents, { role: 'user', parts: currentParts }],
-            config: requestConfig
+    await chatEngine.send({ ...session, messages: session.messages.slice(0, -1) }, {
+      text: userMsg.text,
+      images: userMsg.images || [],
+      languageName: LANGUAGES.find(l => l.code === language)?.name || 'English',
+      mode: findMode(modes, session.appMode),
+      defaults: user?.preferences?.generationDefaults,
+      research
+    }, event => {
+      switch (event.type) {
+        case 'delta':
+          updateModelMessage({ text: event.fullText, retry: undefined });
+          break;
+        case 'retrying':
+          updateModelMessage({ retry: { at: event.retryAt, kind: event.error.kind } });
+          break;
+        case 'sources':
+          updateModelMessage({ sources: event.sources });
+          break;
+        case 'citations':
+          updateModelMessage({ citations: event.citations });
+          break;
+        case 'research':
+          // Progress means a planning retry, if any, went through
+          updateModelMessage({ research: event.research, retry: undefined });
+          break;
+        case 'summary':
+          setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, contextSummary: event.summary } : s));
+          break;
+        case 'done':
+          updateModelMessage({
+            text: event.text,
+            sources: event.sources.length > 0 ? event.sources : undefined,
+            citations: event.citations.length > 0 ? event.citations : undefined,
+            isStreaming: false,
+            stopped: event.stopped || undefined,
+            retry: undefined,
+            usage: event.usage
           });
-      };
-
-      let responseStream;
-      let attempt = 0;
-      const maxRetries = 3;
-      
-      while (attempt <= maxRetries) {
-        try {
-          responseStream = await makeRequest();
-          break; // Success
-        } catch (e: any) {
-          const msg = e.message || e.toString();
-          // Check for Rate Limit (429), Forbidden (403), or Server Error (503)
-          if ((msg.includes('429') || msg.includes('Too Many Requests') || msg.includes('403') || msg.includes('503')) && attempt < maxRetries) {
-             attempt++;
-             // Exponential backoff: 1s, 2s, 4s
-             const waitTime = Math.pow(2, attempt - 1) * 1000; 
-             console.warn(`BorAI: Rate limit hit. Retrying in ${waitTime}ms...`);
-             await new Promise(r => setTimeout(r, waitTime));
-             continue;
-          }
-          throw e; // Fatal error or max retries reached
-        }
-      }
-
-      // TS Safety Check: Ensure stream exists before iteration
-      if (!responseStream) {
-        throw new Error("Failed to establish connection to the model.");
-      }
-
-      let sources: Source[] = [];
-
-      for await (const chunk of responseStream) {
-        const chunkText = chunk.text || '';
-        fullText += chunkText;
-
-        const groundingChunks = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks;
-        if (groundingChunks) {
-           groundingChunks.forEach(c => {
-             if (c.web?.uri && c.web?.title) {
-               if (!sources.find(s => s.uri === c.web!.uri)) {
-                 sources.push({ title: c.web.title, uri: c.web.uri });
-               }
-             }
-           });
+          break;
+        case 'error': {
+          const errorText = getErrorMessage(event.error);
+          updateModelMessage({
+            text: event.partialText ? `${event.partialText}\n\n---\n\n⚠️ **${errorText}**` : errorText,
+            sources: event.sources.length > 0 ? event.sources : undefined,
+            citations: event.citations.length > 0 ? event.citations : undefined,
+            isError: true,
+            isStreaming: false,
+            retry: undefined
+          });
+          break;
         }
-
-        const currentSources = [...sources];
-        
-        setSessions(prev => prev.map(s => 
-          s.id === currentSessionId 
-          ? { 
-              ...s, 
-              messages: s.messages.map(m => m.id === modelMsgId ? { ...m, text: fullText, sources: currentSources.length > 0 ? currentSources : undefined } : m)
-            }
-          : s
-        ));
       }
+    }, controller.signal);
 
-      setSessions(prev => prev.map(s => 
-        s.id === currentSessionId 
-        ? { 
-            ...s, 
-            messages: s.messages.map(m => m.id === modelMsgId ? { ...m, isStreaming: false } : m)
-          }
-        : s
-      ));
+    if (activeRunRef.current?.controller === controller) activeRunRef.current = null;
+    setIsLoading(false);
+  };
 
-    } catch (error: any) {
-      const errorText = getErrorMessage(error);
-      setSessions(prev => prev.map(s => 
-        s.id === currentSessionId 
-        ? { 
-            ...s, 
-            messages: s.messages.map(m => m.id === modelMsgId ? { ...m, text: fullText ? `${fullText}\n\n---\n\n⚠️ **${errorText}**` : errorText, isError: true, isStreaming: false } : m)
-          }
-        : s
-      ));
-    } finally {
-      setIsLoading(false);
-    }
+  // Editing keeps the original question: the edit becomes a sibling with its own answer
+  const handleEdit = async (messageId: string, text: string) => {
+    if (!currentSession || isLoading) return;
+    const index = currentSession.messages.findIndex(m => m.id === messageId);
+    const original = currentSession.messages[index];
+    if (!original || original.role !== 'user') return;
+    const parentId = index > 0 ? currentSession.messages[index - 1].id : null;
+    const edited: Message = { id: Date.now().toString(), role: 'user', text: text.trim(), images: original.images };
+    await generateReply({ ...branchFrom(currentSession, parentId, edited), updatedAt: Date.now() });
   };
 
-  const getThemeColor = () => {
-    switch(appMode) {
-      case 'tutor': return 'text-violet-400';
-      case 'research': return 'text-emerald-400';
-      default: return 'text-slate-500';
-    }
+  const handleRegenerate = async (messageId: string) => {
+    if (!currentSession || isLoading) return;
+    const index = currentSession.messages.findIndex(m => m.id === messageId);
+    if (index < 1 || currentSession.messages[index - 1].role !== 'user') return;
+    const path = withParentLinks(currentSession.messages).slice(0, index);
+    await generateReply({ ...activatePath(currentSession, path), updatedAt: Date.now() }, currentSession.messages[index].research);
   };
 
-  const getMessageBg = () => {
-    switch(appMode) {
-      case 'tutor': return 'bg-slate-800 border border-violet-500/30';
-      case 'research': return 'bg-slate-800 border border-emerald-500/30';
-      default: return 'message-ai';
-    }
+  // Resends the turn behind a failed answer; the failure itself isn't kept as a branch
+  const handleRetry = async (messageId: string) => {
+    if (!currentSession || isLoading) return;
+    const index = currentSession.messages.findIndex(m => m.id === messageId);
+    if (index < 1 || !currentSession.messages[index].isError || currentSession.messages[index - 1].role !== 'user') return;
+    const path = withParentLinks(currentSession.messages).slice(0, index + 1);
+    const trimmed = removeLeaf(activatePath(currentSession, path), messageId);
+    // Turns already continued from the failed answer keep it; retry as a new version instead
+    if (trimmed.messages.length === path.length) return handleRegenerate(messageId);
+    await generateReply({ ...trimmed, updatedAt: Date.now() }, currentSession.messages[index].research);
   };
 
-  const getButtonClass = () => {
-    switch(appMode) {
-      case 'tutor': return 'bg-violet-600 hover:bg-violet-500';
-      case 'research': return 'bg-emerald-600 hover:bg-emerald-500';
-      default: return 'bg-indigo-600 hover:bg-indigo-500';
-    }
+  const handleSwitchBranch = (messageId: string, offset: number) => {
+    if (!currentSession || isLoading) return;
+    const switched = switchBranch(currentSession, messageId, offset);
+    if (switched !== currentSession) setSessions(prev => prev.map(s => s.id === switched.id ? switched : s));
   };
 
-  const getGlowClass = () => {
-    switch(appMode) {
-      case 'tutor': return 'bg-gradient-to-r from-violet-500 to-fuchsia-600';
-      case 'research': return 'bg-gradient-to-r from-emerald-500 to-teal-600';
-      default: return 'bg-gradient-to-r from-cyan-500 to-blue-600';
-    }
+  const handleStop = () => {
+    activeRunRef.current?.controller.abort();
   };
 
   if (!user && !showLoginModal) {
@@ -1359,11 +6235,19 @@ const ChatApp: React.FC = () => {
       <Sidebar 
         isOpen={isSidebarOpen} 
         onClose={() => setIsSidebarOpen(false)}
-        sessions={sessions}
+        sessions={sidebarSessions}
+        modes={modes}
+        hasMore={hasMoreSummaries}
+        onLoadMore={loadMoreSummaries}
         currentId={currentSessionId}
-        onSelect={(id) => { setCurrentSessionId(id); setIsSidebarOpen(false); }}
+        onSelect={(id) => { openSession(id); setIsSidebarOpen(false); }}
+        onJumpToMessage={handleJumpToMessage}
         onNew={handleNewChat}
         onDelete={handleDeleteSession}
+        onOpenBackup={() => { setIsBackupDialogOpen(true); setIsSidebarOpen(false); }}
+        onOpenStorage={() => { setIsStoragePanelOpen(true); setIsSidebarOpen(false); }}
+        onOpenProfile={() => { setIsProfileDialogOpen(true); setIsSidebarOpen(false); }}
+        onTogglePin={handleTogglePin}
       />
 
       <Header 
@@ -1371,8 +6255,15 @@ const ChatApp: React.FC = () => {
         onClear={() => setIsClearDialogOpen(true)} 
         language={language}
         setLanguage={setLanguage}
-        appMode={appMode}
+        modes={modes}
+        mode={activeMode}
         setAppMode={setAppMode}
+        onManageModes={() => setIsModesDialogOpen(true)}
+        onExport={handleExport}
+        session={currentSession}
+        settingsDefaults={user?.preferences?.generationDefaults}
+        onSettingsChange={settings => updateCurrentSession({ settings })}
+        onSaveSettingsDefaults={settings => updatePreferences({ generationDefaults: settings })}
       />
 
       <ClearDialog 
@@ -1381,18 +6272,59 @@ const ChatApp: React.FC = () => {
         onConfirm={clearHistory} 
       />
 
+      <BackupDialog
+        isOpen={isBackupDialogOpen}
+        onClose={() => setIsBackupDialogOpen(false)}
+        onImported={() => { reloadSessions(); loadModes(); }}
+      />
+
+      <StoragePanel
+        isOpen={isStoragePanelOpen}
+        onClose={() => setIsStoragePanelOpen(false)}
+        onChanged={reloadSessions}
+        currentId={currentSessionId}
+      />
+
+      <ProfileDialog
+        isOpen={isProfileDialogOpen}
+        onClose={() => setIsProfileDialogOpen(false)}
+      />
+
+      <ModesDialog
+        isOpen={isModesDialogOpen}
+        onClose={() => setIsModesDialogOpen(false)}
+        modes={customModes}
+        onChanged={loadModes}
+      />
+
+      <GuestSessionsDialog onResolved={() => { reloadSessions(); loadModes(); }} />
+
       <main className="flex-1 overflow-y-auto pt-24 pb-32 px-4 md:px-0">
         <div className="max-w-4xl mx-auto flex flex-col">
-          {messages.map(msg => (
-            <ChatMessage key={msg.id} msg={msg} />
-          ))}
+          {messages.map((msg, i) => {
+            const siblings = currentSession ? getSiblings(currentSession, msg.id) : [];
+            const canRegenerate = msg.role === 'model' && messages[i - 1]?.role === 'user';
+            return (
+              <ChatMessage
+                key={msg.id}
+                msg={msg}
+                isFocused={msg.id === focusedMessageId}
+                branch={siblings.length > 1 ? { index: siblings.findIndex(m => m.id === msg.id), count: siblings.length } : undefined}
+                disabled={isLoading}
+                onSwitchBranch={offset => handleSwitchBranch(msg.id, offset)}
+                onEdit={msg.role === 'user' ? text => handleEdit(msg.id, text) : undefined}
+                onRegenerate={canRegenerate ? () => handleRegenerate(msg.id) : undefined}
+                onRetry={msg.isError && canRegenerate ? () => handleRetry(msg.id) : undefined}
+              />
+            );
+          })}
           {isLoading && messages[messages.length - 1]?.role === 'user' && (
              <div className="flex w-full mb-8 justify-start">
                <div className="max-w-[75%]">
-                 <span className={`text-xs mb-1 ml-1 font-medium tracking-wider ${getThemeColor()}`}>
-                    {appMode === 'tutor' ? 'BORAI TUTOR' : appMode === 'research' ? 'BORAI RESEARCHER' : 'BORAI'}
+                 <span className={`text-xs mb-1 ml-1 font-medium tracking-wider ${activeMode.id === DEFAULT_MODE.id ? 'text-slate-500' : theme.accent}`}>
+                    {activeMode.id === DEFAULT_MODE.id ? 'BORAI' : `BORAI ${activeMode.name.toUpperCase()}`}
                  </span>
-                 <div className={`rounded-2xl rounded-tl-sm px-4 py-3 ${getMessageBg()}`}>
+                 <div className={`rounded-2xl rounded-tl-sm px-4 py-3 ${theme.messageBg}`}>
                    <TypingIndicator />
                  </div>
                </div>
@@ -1404,15 +6336,31 @@ const ChatApp: React.FC = () => {
 
       <div className="fixed bottom-0 left-0 right-0 p-4 md:p-6 bg-gradient-to-t from-slate-950 via-slate-950 to-transparent z-40">
         <div className="max-w-4xl mx-auto">
-          {appMode !== 'standard' && (
+          {activeMode.id !== DEFAULT_MODE.id && (
             <div className="flex items-center gap-2 mb-2 ml-1 animate-fade-in-up">
               <span className="flex h-2 w-2 relative">
-                 <span className={`animate-ping absolute inline-flex h-full w-full rounded-full opacity-75 ${appMode === 'tutor' ? 'bg-violet-400' : 'bg-emerald-400'}`}></span>
-                 <span className={`relative inline-flex rounded-full h-2 w-2 ${appMode === 'tutor' ? 'bg-violet-500' : 'bg-emerald-500'}`}></span>
+                 <span className={`animate-ping absolute inline-flex h-full w-full rounded-full opacity-75 ${theme.ping}`}></span>
+                 <span className={`relative inline-flex rounded-full h-2 w-2 ${theme.dot}`}></span>
               </span>
-              <span className={`text-xs font-medium tracking-wider ${appMode === 'tutor' ? 'text-violet-300' : 'text-emerald-300'}`}>
-                {appMode === 'tutor' ? 'HOMEWORK MODE ACTIVE' : 'DEEP RESEARCH MODE ACTIVE'}
+              <span className={`text-xs font-medium tracking-wider ${theme.soft}`}>
+                {activeMode.name.toUpperCase()} MODE ACTIVE
+              </span>
+            </div>
+          )}
+
+          {storageError && (
+            <div className="flex flex-wrap items-center gap-3 mb-3 p-3 rounded-xl bg-red-500/10 border border-red-500/50 text-sm text-red-200 animate-fade-in-up">
+              <span className="flex-1 min-w-0">
+                {storageError === 'quota'
+                  ? 'Storage is full. Your latest messages are not saved on this device.'
+                  : 'Your latest changes could not be saved on this device.'}
               </span>
+              <button onClick={() => setIsStoragePanelOpen(true)} className="text-xs font-medium text-red-100 hover:text-white underline">
+                Manage storage
+              </button>
+              <button onClick={retrySave} className="text-xs font-medium text-red-100 hover:text-white underline">
+                Retry save
+              </button>
             </div>
           )}
 
@@ -1437,7 +6385,7 @@ const ChatApp: React.FC = () => {
           )}
 
           <form onSubmit={handleSubmit} className="relative group">
-            <div className={`absolute -inset-0.5 rounded-2xl opacity-30 group-hover:opacity-60 transition duration-500 blur ${getGlowClass()}`}></div>
+            <div className={`absolute -inset-0.5 rounded-2xl opacity-30 group-hover:opacity-60 transition duration-500 blur ${theme.glow}`}></div>
             <div className="relative flex items-end gap-2 bg-slate-900 rounded-xl p-2 border border-slate-800 focus-within:border-slate-600 focus-within:ring-1 focus-within:ring-slate-600 transition-all shadow-2xl">
               
               <input 
@@ -1470,36 +6418,40 @@ const ChatApp: React.FC = () => {
                   }
                 }}
                 placeholder={
-                  appMode === 'tutor' 
-                    ? "Paste a problem or upload homework..." 
-                    : appMode === 'research'
-                      ? "Enter a research topic..."
-                      : (pendingImages.length > 0 ? "Ask about this image..." : "Ask BorAI anything...")
+                  activeMode.placeholder
+                    || (pendingImages.length > 0 ? "Ask about this image..." : "Ask BorAI anything...")
                 }
                 className="w-full bg-transparent border-0 text-slate-200 placeholder-slate-500 focus:ring-0 resize-none py-3 px-3 min-h-[56px] max-h-32"
                 rows={1}
               />
-              <button
-                type="submit"
-                disabled={isLoading || (!input.trim() && pendingImages.length === 0)}
-                className={`mb-1 p-3 rounded-lg text-white disabled:opacity-50 disabled:cursor-not-allowed transition-all transform hover:scale-105 active:scale-95 flex-shrink-0 ${getButtonClass()}`}
-              >
-                {isLoading ? (
-                  <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+              {isLoading ? (
+                <button
+                  type="button"
+                  onClick={handleStop}
+                  className="mb-1 p-3 rounded-lg text-white bg-slate-700 hover:bg-red-600 transition-all transform hover:scale-105 active:scale-95 flex-shrink-0"
+                  title="Stop generating"
+                >
+                  <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                    <rect x="6" y="6" width="12" height="12" rx="2" />
                   </svg>
-                ) : (
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!input.trim() && pendingImages.length === 0}
+                  className={`mb-1 p-3 rounded-lg text-white disabled:opacity-50 disabled:cursor-not-allowed transition-all transform hover:scale-105 active:scale-95 flex-shrink-0 ${theme.button}`}
+                >
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" />
                   </svg>
-                )}
-              </button>
+                </button>
+              )}
             </div>
-            <div className="text-center mt-2">
+            <div className="mt-2 flex flex-wrap items-center justify-center gap-x-3 gap-y-1">
               <span className="text-[10px] text-slate-500 uppercase tracking-widest">
-                Powered by Gemini • Real-time Web Synthesis
+                Powered by {modelProvider.label}{modelProvider.capabilities.webSearch ? ' • Real-time Web Synthesis' : ''}
               </span>
+              {contextPlan && contextPlan.usedTokens > 0 && <ContextMeter plan={contextPlan} />}
             </div>
           </form>
         </div>
@@ -1511,10 +6463,15 @@ const ChatApp: React.FC = () => {
 function App() {
   return (
     <AuthProvider>
+      <DatabaseRecoveryDialog />
       <ChatApp />
+      <LockScreen />
     </AuthProvider>
   );
 }
 
-const root = createRoot(document.getElementById('root')!);
-root.render(<App />);
\ No newline at end of file
+// A sign-in popup only relays the provider's redirect to the window that opened it
+if (!forwardOidcCallback()) {
+  const root = createRoot(document.getElementById('root')!);
+  root.render(<App />);
+}
\ No newline at end of file
@@ -0,0 +1,115 @@
+// Data model shared by the app and the chat engine
+import type { ModelErrorKind, ModelUsage } from './chatEngine';
+
+export type AppMode = string; // Id of a ChatMode: a built-in one or one the user created
+
+export interface Source {
+  title: string;
+  uri: string;
+}
+
+// A span of an answer backed by grounding sources
+export interface Citation {
+  end: number; // Character offset in the message text just after the supported span
+  sources: number[]; // Indexes into the message's `sources`
+}
+
+// What a Message stores: a pointer into the `attachments` blob store
+export interface AttachmentRef {
+  hash: string; // SHA-256 of the image bytes (hex)
+  mimeType: string;
+  size: number;
+}
+
+// Deep research runs in stages; each one's output is kept on the answer so the report
+// can be rewritten without searching again
+export type ResearchStage = 'plan' | 'search' | 'merge' | 'report';
+export type ResearchStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface ResearchQuery {
+  question: string;
+  status: ResearchStatus;
+  answer?: string; // Grounded findings, handed to the report writer
+  sources?: Source[];
+  retryAt?: number; // Waiting out a transient error
+  error?: string;
+}
+
+export interface ResearchRun {
+  stages: Record<ResearchStage, ResearchStatus>;
+  queries: ResearchQuery[]; // Sub-questions from the plan stage
+  sources: Source[]; // Every query's sources, deduplicated by the merge stage
+  reused?: boolean; // Plan and searches were copied from an earlier answer
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export interface Message {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  sources?: Source[];
+  images?: AttachmentRef[];
+  isStreaming?: boolean;
+  isError?: boolean;
+  stopped?: boolean; // Generation was cancelled; text holds what had arrived
+  retry?: { at: number; kind: ModelErrorKind }; // Waiting to resend after a transient error
+  citations?: Citation[];
+  research?: ResearchRun;
+  usage?: ModelUsage;
+  parentId?: string | null; // Previous turn in the message tree; null for the first message
+  updatedAt?: number; // Last change after creation; the newer copy wins a cross-tab merge
+}
+
+// Rolling summary of the active branch from its start through `throughId`
+export interface ContextSummary {
+  text: string;
+  throughId: string;
+}
+
+export interface ChatSession {
+  id: string;
+  userId: string; // Foreign key to User
+  title: string;
+  messages: Message[]; // The active branch, root first
+  branches?: Message[]; // Every message of the tree that isn't on the active branch
+  contextSummary?: ContextSummary; // Stands in for the oldest turns once they no longer fit
+  deletedIds?: string[]; // Messages removed from the tree; a merge never brings them back
+  appMode: AppMode;
+  settings?: GenerationSettings;
+  pinned?: boolean; // Exempt from retention cleanup
+  revision?: number; // Bumped by every write; guards against stale cross-tab overwrites
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Per-session tuning. Unset fields fall back to the user's defaults, then the provider's.
+export interface GenerationSettings {
+  model?: string;
+  temperature?: number; // 0 to 2
+  thinkingBudget?: number; // Tokens; 0 turns thinking off
+  webSearch?: boolean;
+}
+
+// Modes pick their color and icon from fixed sets; the themes and built-in modes are in index.tsx
+export type ModeColor = 'cyan' | 'violet' | 'emerald' | 'amber' | 'rose' | 'sky';
+export type ModeIcon = 'chat' | 'tutor' | 'research' | 'code' | 'scale' | 'pen' | 'sparkles';
+
+export interface ModeTools {
+  webSearch?: boolean; // Unset: the user's default
+  thinkingBudget?: number;
+  deepResearch?: boolean; // Plan, search each sub-question, then write a report
+}
+
+export interface ChatMode {
+  id: AppMode;
+  userId?: string; // Unset for built-in modes
+  name: string;
+  color: ModeColor;
+  icon: ModeIcon;
+  prompt: string; // Template; ${language}, ${date} and ${mode} are filled in per request
+  placeholder?: string; // Input hint while the mode is active
+  tools: ModeTools;
+  builtIn?: boolean;
+  createdAt?: number;
+}
@@ -12,6 +12,26 @@ export default defineConfig(({ mode }) => {
       // This maps the process.env.API_KEY variable in your code 
       // to the actual environment variable provided by Cloudflare/Netlify/Vercel
       'process.env.API_KEY': JSON.stringify(env.API_KEY || env.VITE_API_KEY),
+      // Model backend: 'gemini' (default when API_KEY is set), 'openai' for any
+      // OpenAI-compatible server such as Ollama or llama.cpp, or 'mock' for offline use
+      'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER || ''),
+      'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL || ''),
+      'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL || ''),
+      'process.env.OPENAI_MODELS': JSON.stringify(env.OPENAI_MODELS || ''),
+      'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY || ''),
+      'process.env.OPENAI_CONTEXT_WINDOW': JSON.stringify(env.OPENAI_CONTEXT_WINDOW || ''),
+      // Social sign-in (OpenID Connect). Providers without a client id fall back to
+      // fake accounts in development and are hidden in production builds.
+      'process.env.OIDC_GOOGLE_CLIENT_ID': JSON.stringify(env.OIDC_GOOGLE_CLIENT_ID || ''),
+      'process.env.OIDC_GOOGLE_SCOPES': JSON.stringify(env.OIDC_GOOGLE_SCOPES || ''),
+      'process.env.OIDC_MICROSOFT_CLIENT_ID': JSON.stringify(env.OIDC_MICROSOFT_CLIENT_ID || ''),
+      'process.env.OIDC_MICROSOFT_ISSUER': JSON.stringify(env.OIDC_MICROSOFT_ISSUER || ''),
+      'process.env.OIDC_MICROSOFT_SCOPES': JSON.stringify(env.OIDC_MICROSOFT_SCOPES || ''),
+      'process.env.OIDC_ISSUER': JSON.stringify(env.OIDC_ISSUER || ''),
+      'process.env.OIDC_CLIENT_ID': JSON.stringify(env.OIDC_CLIENT_ID || ''),
+      'process.env.OIDC_SCOPES': JSON.stringify(env.OIDC_SCOPES || ''),
+      'process.env.OIDC_LABEL': JSON.stringify(env.OIDC_LABEL || ''),
+      'process.env.ENABLE_MOCK_AUTH': JSON.stringify(mode !== 'production' ? 'true' : ''),
       // Prevents "process is not defined" errors in browser
       'process.env': {} 
     },